@@ -0,0 +1,174 @@
+/// <reference types="jest" />
+import {
+  fromTemporaryCredentials,
+  fromTokenFile,
+} from '@aws-sdk/credential-providers'
+import { AwsSigv4Signer } from '@opensearch-project/opensearch/aws'
+import { createCredentialsProvider, memoizeCredentials } from '../aws'
+import { createClientConfig } from '../secrets/utils'
+import { ElasticLogger } from '../logger'
+
+jest.mock('@aws-sdk/credential-providers', () => ({
+  fromTemporaryCredentials: jest.fn(),
+  fromTokenFile: jest.fn(),
+}))
+
+jest.mock('@opensearch-project/opensearch/aws', () => ({
+  AwsSigv4Signer: jest.fn().mockReturnValue({}),
+}))
+
+const temporaryCredentials = (expiresInMs: number) => ({
+  accessKeyId: 'ASIA-TEMP',
+  secretAccessKey: 'temp-secret',
+  sessionToken: 'temp-token',
+  expiration: new Date(Date.now() + expiresInMs),
+})
+
+describe('AWS credentials', () => {
+  const assumeRole = jest.fn()
+
+  beforeEach(() => {
+    assumeRole.mockReset()
+    assumeRole.mockImplementation(async () =>
+      temporaryCredentials(60 * 60 * 1000)
+    )
+    ;(fromTemporaryCredentials as jest.Mock).mockReturnValue(assumeRole)
+    ;(fromTokenFile as jest.Mock).mockReturnValue(assumeRole)
+  })
+
+  describe('createCredentialsProvider', () => {
+    it('should assume a role with session name, external ID and duration', async () => {
+      const provider = createCredentialsProvider(
+        {
+          roleArn: 'arn:aws:iam::123456789012:role/secrets-reader',
+          roleSessionName: 'video-service',
+          externalId: 'ext-123',
+          durationSeconds: 900,
+          accessKeyId: 'AKIA-SOURCE',
+          secretAccessKey: 'source-secret',
+        },
+        'us-east-2'
+      )
+
+      await expect(provider()).resolves.toMatchObject({
+        accessKeyId: 'ASIA-TEMP',
+      })
+      expect(fromTemporaryCredentials).toHaveBeenCalledWith({
+        params: {
+          RoleArn: 'arn:aws:iam::123456789012:role/secrets-reader',
+          RoleSessionName: 'video-service',
+          ExternalId: 'ext-123',
+          DurationSeconds: 900,
+        },
+        masterCredentials: {
+          accessKeyId: 'AKIA-SOURCE',
+          secretAccessKey: 'source-secret',
+        },
+        clientConfig: { region: 'us-east-2' },
+      })
+    })
+
+    it('should use a web identity token file', async () => {
+      const provider = createCredentialsProvider(
+        {
+          roleArn: 'arn:aws:iam::123456789012:role/irsa',
+          webIdentityTokenFile: '/var/run/secrets/eks/token',
+        },
+        'us-east-1'
+      )
+
+      await provider()
+
+      expect(fromTokenFile).toHaveBeenCalledWith({
+        webIdentityTokenFile: '/var/run/secrets/eks/token',
+        roleArn: 'arn:aws:iam::123456789012:role/irsa',
+        roleSessionName: 'star-node-stack-helper',
+        clientConfig: { region: 'us-east-1' },
+      })
+      expect(fromTemporaryCredentials).not.toHaveBeenCalled()
+    })
+
+    it('should return static credentials as they are', async () => {
+      const provider = createCredentialsProvider(
+        { accessKeyId: 'AKIA-STATIC', secretAccessKey: 'static-secret' },
+        'us-east-1'
+      )
+
+      await expect(provider()).resolves.toEqual({
+        accessKeyId: 'AKIA-STATIC',
+        secretAccessKey: 'static-secret',
+      })
+    })
+  })
+
+  describe('memoizeCredentials', () => {
+    it('should reuse credentials until they are about to expire', async () => {
+      const provider = memoizeCredentials(assumeRole, 5 * 60 * 1000)
+
+      await provider()
+      await provider()
+
+      expect(assumeRole).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refresh credentials inside the refresh window', async () => {
+      assumeRole.mockImplementation(async () =>
+        temporaryCredentials(4 * 60 * 1000)
+      )
+      const provider = memoizeCredentials(assumeRole, 5 * 60 * 1000)
+
+      const first = await provider()
+      await provider()
+
+      expect(assumeRole).toHaveBeenCalledTimes(2)
+      expect(first.expiration!.getTime()).toBeLessThanOrEqual(Date.now())
+    })
+
+    it('should share a single refresh between concurrent callers', async () => {
+      const provider = memoizeCredentials(assumeRole)
+
+      await Promise.all([provider(), provider(), provider()])
+
+      expect(assumeRole).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('clients', () => {
+    it('should share assumed-role credentials between Secrets Manager clients', async () => {
+      const options = {
+        region: 'us-east-1',
+        roleArn: 'arn:aws:iam::123456789012:role/shared-clients',
+      }
+
+      const first = createClientConfig(options)
+      const second = createClientConfig(options)
+
+      expect(typeof first.credentials).toBe('function')
+      expect(second.credentials).toBe(first.credentials)
+    })
+
+    it('should sign ElasticLogger requests with the assumed role', async () => {
+      new ElasticLogger({
+        node: 'https://search.us-east-1.es.amazonaws.com',
+        authType: 'aws',
+        index: 'test-logs',
+        service: 'test-service',
+        environment: 'test',
+        region: 'us-east-1',
+        roleArn: 'arn:aws:iam::123456789012:role/logs-writer',
+      })
+
+      const { getCredentials } = (AwsSigv4Signer as jest.Mock).mock.calls[0][0]
+      await expect(getCredentials()).resolves.toMatchObject({
+        accessKeyId: 'ASIA-TEMP',
+      })
+      expect(fromTemporaryCredentials).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: expect.objectContaining({
+            RoleArn: 'arn:aws:iam::123456789012:role/logs-writer',
+          }),
+        })
+      )
+    })
+  })
+})
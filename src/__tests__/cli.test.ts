@@ -0,0 +1,283 @@
+/// <reference types="jest" />
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager'
+import {
+  chmodSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { runCli } from '../cli'
+import { parseDotenv } from '../secrets/providers'
+
+describe('star-helper CLI', () => {
+  let dir: string
+  let stdout: string
+  let stderr: string
+  const io = {
+    stdout: (text: string) => (stdout += text),
+    stderr: (text: string) => (stderr += text),
+  }
+
+  // Serve a different secret for each name
+  const mockSecrets = (secrets: Record<string, Record<string, string>>) => {
+    const send = jest.fn().mockImplementation(async (command) => ({
+      SecretString: JSON.stringify(secrets[command.input.SecretId]),
+    }))
+    ;(SecretsManagerClient as jest.Mock).mockImplementation(() => ({ send }))
+  }
+
+  const defaultClient = (
+    SecretsManagerClient as jest.Mock
+  ).getMockImplementation()
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'star-cli-'))
+    stdout = ''
+    stderr = ''
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    ;(SecretsManagerClient as jest.Mock).mockImplementation(defaultClient)
+  })
+
+  it('should print the usage and reject unknown commands', async () => {
+    expect(await runCli(['--help'], io)).toBe(0)
+    expect(stdout).toContain('Usage: star-helper secrets <command>')
+
+    expect(await runCli(['secrets', 'push'], io)).toBe(2)
+    expect(stderr).toContain('Unknown command: secrets push')
+  })
+
+  it('should pull a masked .env file by default', async () => {
+    const out = join(dir, '.env')
+
+    const code = await runCli(
+      ['secrets', 'pull', '-s', 'dev/app/env', '-r', 'us-east-1', '-o', out],
+      io
+    )
+
+    expect(code).toBe(0)
+    expect(stdout).toBe(`Wrote 3 keys to ${out} (masked)\n`)
+    expect(readFileSync(out, 'utf8')).toBe(
+      'DATABASE_URL="po****st"\nAPI_KEY="te****ey"\nNODE_ENV="****"\n'
+    )
+  })
+
+  it('should pull real values with --unmasked', async () => {
+    const out = join(dir, '.env')
+
+    await runCli(
+      [
+        'secrets',
+        'pull',
+        '-s',
+        'dev/app/env',
+        '-r',
+        'us-east-1',
+        '--unmasked',
+        '-o',
+        out,
+      ],
+      io
+    )
+
+    expect(readFileSync(out, 'utf8')).toContain('API_KEY="test-api-key"')
+  })
+
+  it('should make an existing file private when pulling real values', async () => {
+    mockSecrets({ 'dev/app/env': { API_KEY: 'sk_live_1234567890' } })
+    const out = join(dir, '.env')
+    writeFileSync(out, 'OLD=1\n', { mode: 0o644 })
+    chmodSync(out, 0o644)
+
+    await runCli(
+      [
+        'secrets',
+        'pull',
+        '-s',
+        'dev/app/env',
+        '-r',
+        'us-east-1',
+        '--unmasked',
+        '-o',
+        out,
+      ],
+      io
+    )
+
+    expect(statSync(out).mode & 0o777).toBe(0o600)
+    expect(readFileSync(out, 'utf8')).toContain('sk_live_1234567890')
+    expect(readdirSync(dir)).toEqual(['.env'])
+  })
+
+  it('should pull values that parse back unchanged', async () => {
+    const values = {
+      WINDOWS_PATH: 'C:\\new\\path',
+      PRIVATE_KEY: '-----BEGIN KEY-----\r\nabc\\n\n-----END KEY-----',
+    }
+    mockSecrets({ 'dev/app': values })
+    const out = join(dir, '.env')
+
+    await runCli(
+      [
+        'secrets',
+        'pull',
+        '-s',
+        'dev/app',
+        '-r',
+        'us-east-1',
+        '--unmasked',
+        '-o',
+        out,
+      ],
+      io
+    )
+
+    expect(readFileSync(out, 'utf8')).toContain(
+      'WINDOWS_PATH="C:\\\\new\\\\path"'
+    )
+    expect(parseDotenv(readFileSync(out, 'utf8'))).toEqual(values)
+  })
+
+  it('should diff two secrets with masked values', async () => {
+    mockSecrets({
+      'staging/app': { API_KEY: 'staging-key', SHARED: 'same' },
+      'prod/app': { API_KEY: 'production-key', SHARED: 'same', NEW: 'x' },
+    })
+
+    const code = await runCli(
+      [
+        'secrets',
+        'diff',
+        '-s',
+        'staging/app',
+        '-a',
+        'prod/app',
+        '-r',
+        'us-east-1',
+      ],
+      io
+    )
+
+    expect(code).toBe(1)
+    expect(stdout).toBe('+ NEW=****\n~ API_KEY=**** -> pr****ey\n')
+  })
+
+  it('should diff a secret against a local file', async () => {
+    mockSecrets({ 'dev/app': { API_KEY: 'key', PORT: '3000' } })
+    const file = join(dir, '.env.local')
+    writeFileSync(file, 'API_KEY=key\nPORT=3000\n')
+
+    const code = await runCli(
+      [
+        'secrets',
+        'diff',
+        '-s',
+        'dev/app',
+        '-a',
+        `file:${file}`,
+        '-r',
+        'us-east-1',
+      ],
+      io
+    )
+
+    expect(code).toBe(0)
+    expect(stdout).toBe('No differences\n')
+  })
+
+  it('should validate secrets against a schema file', async () => {
+    mockSecrets({ 'prod/app': { API_KEY: 'key', DATABASE_URL: 'mysql://db' } })
+    const schema = join(dir, 'schema.json')
+    writeFileSync(
+      schema,
+      JSON.stringify({
+        requiredKeys: ['API_KEY', 'SENTRY_DSN_CLI_TEST'],
+        schema: { DATABASE_URL: { pattern: '^postgres' } },
+      })
+    )
+
+    const code = await runCli(
+      [
+        'secrets',
+        'validate',
+        '-s',
+        'prod/app',
+        '-r',
+        'us-east-1',
+        '--schema',
+        schema,
+      ],
+      io
+    )
+
+    expect(code).toBe(1)
+    expect(stderr).toBe('missing: SENTRY_DSN_CLI_TEST\ninvalid: DATABASE_URL\n')
+  })
+
+  it('should report keys that are only set in the local environment', async () => {
+    mockSecrets({ 'prod/app': { API_KEY: 'key' } })
+    const schema = join(dir, 'schema.json')
+    writeFileSync(
+      schema,
+      JSON.stringify({ requiredKeys: ['API_KEY', 'CLI_SHELL_ONLY_KEY'] })
+    )
+    process.env['CLI_SHELL_ONLY_KEY'] = 'set in the shell'
+
+    try {
+      const code = await runCli(
+        [
+          'secrets',
+          'validate',
+          '-s',
+          'prod/app',
+          '-r',
+          'us-east-1',
+          '--schema',
+          schema,
+        ],
+        io
+      )
+
+      expect(code).toBe(1)
+      expect(stderr).toBe('missing: CLI_SHELL_ONLY_KEY\n')
+    } finally {
+      delete process.env['CLI_SHELL_ONLY_KEY']
+    }
+  })
+
+  it('should run a command with the secrets in its environment', async () => {
+    mockSecrets({ 'dev/app': { CLI_EXEC_KEY: 'injected' } })
+
+    const code = await runCli(
+      [
+        'secrets',
+        'exec',
+        '-s',
+        'dev/app',
+        '-r',
+        'us-east-1',
+        '--',
+        process.execPath,
+        '-e',
+        'process.exit(process.env.CLI_EXEC_KEY === "injected" ? 0 : 3)',
+      ],
+      io
+    )
+
+    expect(code).toBe(0)
+  })
+
+  it('should report load errors', async () => {
+    const code = await runCli(['secrets', 'pull', '-r', 'us-east-1'], io)
+
+    expect(code).toBe(1)
+    expect(stderr).toBe('Error: At least one --secret is required\n')
+  })
+})
@@ -0,0 +1,153 @@
+/// <reference types="jest" />
+import { inspect } from 'util'
+import { defineConfig, parseConfig, ConfigValidationError } from '../config'
+
+describe('Config Module', () => {
+  describe('parseConfig', () => {
+    it('should coerce values to their declared types', () => {
+      const config = parseConfig(
+        {
+          NAME: { type: 'string' },
+          PORT: { type: 'number', integer: true },
+          DEBUG: { type: 'boolean' },
+          LOG_LEVEL: { type: 'enum', values: ['debug', 'info'] },
+          API_URL: { type: 'url' },
+          FLAGS: { type: 'json' },
+        },
+        {
+          NAME: 'video',
+          PORT: '8080',
+          DEBUG: 'yes',
+          LOG_LEVEL: 'debug',
+          API_URL: 'https://api.example.com/v1',
+          FLAGS: '{"beta":true}',
+        }
+      )
+
+      expect(config.NAME).toBe('video')
+      expect(config.PORT).toBe(8080)
+      expect(config.DEBUG).toBe(true)
+      expect(config.LOG_LEVEL).toBe('debug')
+      expect(config.API_URL).toBeInstanceOf(URL)
+      expect(config.API_URL.hostname).toBe('api.example.com')
+      expect(config.FLAGS).toEqual({ beta: true })
+    })
+
+    it('should apply defaults and allow optional fields', () => {
+      const config = parseConfig(
+        {
+          PORT: { type: 'number', default: 3000 },
+          ENABLED: { type: 'boolean', default: false },
+          API_URL: { type: 'url', default: 'http://localhost:4000' },
+          EXTRA: { type: 'string', optional: true },
+        },
+        { PORT: '' }
+      )
+
+      expect(config.PORT).toBe(3000)
+      expect(config.ENABLED).toBe(false)
+      expect(config.API_URL.port).toBe('4000')
+      expect(config.EXTRA).toBeUndefined()
+    })
+
+    it('should read from a custom env name', () => {
+      const config = parseConfig(
+        { port: { type: 'number', env: 'HTTP_PORT' } },
+        { HTTP_PORT: '9000' }
+      )
+
+      expect(config.port).toBe(9000)
+    })
+
+    it('should report every invalid field in one error', () => {
+      let error: ConfigValidationError | undefined
+      try {
+        parseConfig(
+          {
+            PORT: { type: 'number' },
+            DEBUG: { type: 'boolean' },
+            LEVEL: { type: 'enum', values: ['info'] },
+            API_URL: { type: 'url', protocols: ['https:'] },
+            REQUIRED: { type: 'string' },
+          },
+          {
+            PORT: 'abc',
+            DEBUG: 'maybe',
+            LEVEL: 'trace',
+            API_URL: 'http://insecure',
+          }
+        )
+      } catch (e) {
+        error = e as ConfigValidationError
+      }
+
+      expect(error).toBeInstanceOf(ConfigValidationError)
+      expect(error?.issues.map((issue) => issue.key)).toEqual([
+        'PORT',
+        'DEBUG',
+        'LEVEL',
+        'API_URL',
+        'REQUIRED',
+      ])
+    })
+
+    it('should enforce number bounds', () => {
+      expect(() =>
+        parseConfig({ PORT: { type: 'number', max: 65535 } }, { PORT: '70000' })
+      ).toThrow('PORT must be at most 65535')
+    })
+
+    it('should return a frozen object', () => {
+      const config = parseConfig({ NAME: { type: 'string' } }, { NAME: 'a' })
+
+      expect(Object.isFrozen(config)).toBe(true)
+    })
+
+    it('should mask sensitive fields when serialized or inspected', () => {
+      const config = parseConfig(
+        {
+          PASSWORD: { type: 'string', secret: true },
+          USER: { type: 'string' },
+        },
+        { PASSWORD: 'hunter2', USER: 'admin' }
+      )
+
+      expect(config.PASSWORD).toBe('hunter2')
+      expect(JSON.parse(JSON.stringify(config))).toEqual({
+        PASSWORD: '[REDACTED]',
+        USER: 'admin',
+      })
+      expect(inspect(config)).not.toContain('hunter2')
+    })
+  })
+
+  describe('defineConfig', () => {
+    it('should read values from the provided env', async () => {
+      const config = await defineConfig(
+        { PORT: { type: 'number' } },
+        { env: { PORT: '3001' } }
+      )
+
+      expect(config.PORT).toBe(3001)
+    })
+
+    it('should load secrets and mark them as sensitive', async () => {
+      const config = await defineConfig(
+        {
+          API_KEY: { type: 'string' },
+          DATABASE_URL: { type: 'url' },
+          PORT: { type: 'number', default: 3000 },
+        },
+        {
+          env: {},
+          secrets: { region: 'us-east-1', secretName: 'test-secret' },
+        }
+      )
+
+      expect(config.API_KEY).toBe('test-api-key')
+      expect(config.DATABASE_URL.protocol).toBe('postgresql:')
+      expect(JSON.stringify(config)).not.toContain('test-api-key')
+      expect(JSON.parse(JSON.stringify(config)).PORT).toBe(3000)
+    })
+  })
+})
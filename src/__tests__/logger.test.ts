@@ -1,5 +1,20 @@
 /// <reference types="jest" />
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ApiResponse, errors } from '@opensearch-project/opensearch'
 import { ElasticLogger } from '../logger'
+import { closeOnShutdown } from '../logger/shutdown'
+import { DiskSpool } from '../logger/spool'
+import { getIndexPattern, resolveIndexName } from '../logger/index-naming'
 import { LoggerConfig, LogTransaction } from '../logger/types'
 
 describe('ElasticLogger', () => {
@@ -247,4 +262,1395 @@ describe('ElasticLogger', () => {
       expect(typeof result.success).toBe('boolean')
     })
   })
+
+  describe('buffered mode', () => {
+    const getClient = (bufferedLogger: ElasticLogger) =>
+      (
+        bufferedLogger as unknown as {
+          client: { index: jest.Mock; bulk: jest.Mock }
+        }
+      ).client
+
+    it('should send logs and transactions in one bulk request', async () => {
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: { flushIntervalMs: 60 * 1000 },
+      })
+      const client = getClient(bufferedLogger)
+
+      await bufferedLogger.log('info', 'first')
+      await bufferedLogger.logTransaction({
+        name: 'checkout',
+        microservice: 'orders',
+        operation: 'create',
+        status: 'success',
+        duration: 12,
+      })
+      expect(client.bulk).not.toHaveBeenCalled()
+      expect(bufferedLogger.buffer?.stats.queued).toBe(2)
+
+      await bufferedLogger.flush()
+
+      expect(client.index).not.toHaveBeenCalled()
+      expect(client.bulk).toHaveBeenCalledTimes(1)
+      const body = client.bulk.mock.calls[0][0].body
+      expect(body).toHaveLength(4)
+      expect(body[0]).toEqual({ index: { _index: 'test-logs' } })
+      expect(body[1]).toEqual(expect.objectContaining({ message: 'first' }))
+      expect(body[2]).toEqual({ index: { _index: 'test-logs-transactions' } })
+      expect(bufferedLogger.buffer?.stats).toEqual(
+        expect.objectContaining({ queued: 0, sent: 2, batches: 1 })
+      )
+    })
+
+    it('should send a batch once maxBatchSize is reached', async () => {
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: { maxBatchSize: 2, flushIntervalMs: 60 * 1000 },
+      })
+      const client = getClient(bufferedLogger)
+
+      await bufferedLogger.log('info', 'one')
+      await bufferedLogger.log('info', 'two')
+      await bufferedLogger.log('info', 'three')
+      await bufferedLogger.flush()
+
+      expect(client.bulk).toHaveBeenCalledTimes(2)
+      expect(client.bulk.mock.calls[0][0].body).toHaveLength(4)
+    })
+
+    it('should retry throttled items and drop rejected ones', async () => {
+      const onDrop = jest.fn()
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 3, delayMs: 1 },
+        buffer: { flushIntervalMs: 60 * 1000, onDrop },
+      })
+      const client = getClient(bufferedLogger)
+      client.bulk.mockResolvedValueOnce({
+        body: {
+          errors: true,
+          items: [
+            { index: { status: 201 } },
+            {
+              index: {
+                status: 429,
+                error: { type: 'es_rejected_execution_exception' },
+              },
+            },
+            {
+              index: {
+                status: 400,
+                error: {
+                  type: 'mapper_parsing_exception',
+                  reason: 'failed to parse field [duration]',
+                },
+              },
+            },
+          ],
+        },
+      })
+
+      await bufferedLogger.log('info', 'ok')
+      await bufferedLogger.log('info', 'throttled')
+      await bufferedLogger.log('info', 'invalid')
+      await bufferedLogger.flush()
+
+      expect(client.bulk).toHaveBeenCalledTimes(2)
+      expect(client.bulk.mock.calls[1][0].body[1]).toEqual(
+        expect.objectContaining({ message: 'throttled' })
+      )
+      expect(onDrop).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            body: expect.objectContaining({ message: 'invalid' }),
+          }),
+        ],
+        'rejected'
+      )
+      expect(bufferedLogger.buffer?.stats).toEqual(
+        expect.objectContaining({ sent: 2, retried: 1, dropped: 1 })
+      )
+    })
+
+    it('should apply the drop policy when the queue is full', async () => {
+      const onDrop = jest.fn()
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: {
+          maxQueueSize: 2,
+          flushIntervalMs: 60 * 1000,
+          dropPolicy: 'drop-newest',
+          onDrop,
+        },
+      })
+
+      await bufferedLogger.log('info', 'one')
+      await bufferedLogger.log('info', 'two')
+      await bufferedLogger.log('info', 'three')
+
+      expect(onDrop).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            body: expect.objectContaining({ message: 'three' }),
+          }),
+        ],
+        'queue-full'
+      )
+      expect(bufferedLogger.buffer?.stats.queued).toBe(2)
+    })
+
+    it('should make callers wait with the block policy', async () => {
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: {
+          maxQueueSize: 1,
+          flushIntervalMs: 60 * 1000,
+          dropPolicy: 'block',
+        },
+      })
+      const client = getClient(bufferedLogger)
+
+      await bufferedLogger.log('info', 'one')
+      await bufferedLogger.log('info', 'two')
+      await bufferedLogger.flush()
+
+      expect(client.bulk).toHaveBeenCalledTimes(2)
+      expect(bufferedLogger.buffer?.stats).toEqual(
+        expect.objectContaining({ sent: 2, dropped: 0 })
+      )
+    })
+
+    it('should drop the batch when the bulk request fails', async () => {
+      const onDrop = jest.fn()
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 1, delayMs: 1 },
+        buffer: { flushIntervalMs: 60 * 1000, onDrop },
+      })
+      getClient(bufferedLogger).bulk.mockRejectedValueOnce(
+        new Error('ECONNREFUSED')
+      )
+
+      await bufferedLogger.log('info', 'lost')
+      await expect(bufferedLogger.flush()).resolves.not.toThrow()
+
+      expect(onDrop).toHaveBeenCalledWith([expect.anything()], 'failed')
+      expect(bufferedLogger.buffer?.stats.lastError).toBe('ECONNREFUSED')
+    })
+  })
+
+  describe('spool', () => {
+    let dir: string
+
+    const getClient = (spoolLogger: ElasticLogger) =>
+      (
+        spoolLogger as unknown as {
+          client: { index: jest.Mock; bulk: jest.Mock; ping: jest.Mock }
+        }
+      ).client
+
+    const readSpool = () =>
+      readdirSync(dir)
+        .flatMap((name) => readFileSync(join(dir, name), 'utf8').split('\n'))
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'star-spool-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should spool documents while OpenSearch is unreachable', async () => {
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 1, delayMs: 1 },
+        spool: { directory: dir },
+      })
+      getClient(spoolLogger).index.mockRejectedValue(
+        new errors.ConnectionError('connect ECONNREFUSED 127.0.0.1:9200')
+      )
+
+      await expect(spoolLogger.log('info', 'kept')).resolves.toBeUndefined()
+      await spoolLogger.logTransaction({
+        name: 'checkout',
+        microservice: 'orders',
+        operation: 'create',
+        status: 'success',
+        duration: 12,
+      })
+
+      expect(readSpool()).toEqual([
+        {
+          index: 'test-logs',
+          body: expect.objectContaining({ message: 'kept' }),
+        },
+        {
+          index: 'test-logs-transactions',
+          body: expect.objectContaining({ name: 'checkout' }),
+        },
+      ])
+      expect(spoolLogger.spool?.stats).toEqual(
+        expect.objectContaining({ segments: 1, spooled: 2 })
+      )
+    })
+
+    it('should spool documents when a request times out or the socket resets', async () => {
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 1, delayMs: 1 },
+        spool: { directory: dir },
+      })
+      getClient(spoolLogger)
+        .index.mockRejectedValueOnce(
+          new errors.TimeoutError('Request timed out', {} as ApiResponse)
+        )
+        .mockRejectedValueOnce(
+          Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+        )
+        .mockRejectedValueOnce(new Error('Request timed out'))
+
+      await expect(spoolLogger.log('info', 'slow')).resolves.toBeUndefined()
+      await expect(spoolLogger.log('info', 'reset')).resolves.toBeUndefined()
+      await expect(spoolLogger.log('info', 'other')).rejects.toThrow(
+        'Failed to log to Elasticsearch: Request timed out'
+      )
+
+      expect(readSpool().map((entry) => entry.body.message)).toEqual([
+        'slow',
+        'reset',
+      ])
+    })
+
+    it('should replay spooled documents in order and delete the segment', async () => {
+      writeFileSync(
+        join(dir, 'spool-0000000000001-000000.ndjson'),
+        [
+          JSON.stringify({ index: 'test-logs', body: { message: 'first' } }),
+          'not json',
+          JSON.stringify({ index: 'test-logs', body: { message: 'second' } }),
+          '',
+        ].join('\n')
+      )
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        spool: { directory: dir },
+      })
+      const client = getClient(spoolLogger)
+
+      await expect(spoolLogger.replaySpool()).resolves.toBe(2)
+
+      expect(client.bulk.mock.calls[0][0].body).toEqual([
+        { index: { _index: 'test-logs' } },
+        { message: 'first' },
+        { index: { _index: 'test-logs' } },
+        { message: 'second' },
+      ])
+      expect(readdirSync(dir)).toEqual([])
+    })
+
+    it('should keep the documents when the replay fails', async () => {
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 1, delayMs: 1 },
+        spool: { directory: dir, replayBatchSize: 1 },
+      })
+      const client = getClient(spoolLogger)
+      await spoolLogger.spool?.append([
+        { index: 'test-logs', body: { message: 'first' } },
+        { index: 'test-logs', body: { message: 'second' } },
+      ])
+      client.bulk
+        .mockResolvedValueOnce({ body: { errors: false, items: [] } })
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+      await expect(spoolLogger.replaySpool()).resolves.toBe(1)
+
+      expect(readSpool()).toEqual([
+        { index: 'test-logs', body: { message: 'second' } },
+      ])
+    })
+
+    it('should not keep a segment whose first write failed', async () => {
+      const spool = new DiskSpool({ directory: dir })
+      await spool.hasPending()
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000000)
+
+      try {
+        // A directory in place of the segment file makes the write fail
+        const blocked = join(dir, 'spool-1700000000000-000000.ndjson')
+        mkdirSync(blocked)
+
+        await expect(
+          spool.append([{ index: 'test-logs', body: { message: 'lost' } }])
+        ).rejects.toThrow('EISDIR')
+        expect(spool.stats).toEqual(
+          expect.objectContaining({ segments: 0, bytes: 0, spooled: 0 })
+        )
+        await expect(spool.hasPending()).resolves.toBe(false)
+
+        rmSync(blocked, { recursive: true })
+        await spool.append([{ index: 'test-logs', body: { message: 'kept' } }])
+        expect(readSpool()).toEqual([
+          { index: 'test-logs', body: { message: 'kept' } },
+        ])
+        expect(spool.stats.segments).toBe(1)
+      } finally {
+        now.mockRestore()
+      }
+    })
+
+    it('should drop segments whose file was removed', async () => {
+      const spool = new DiskSpool({ directory: dir })
+      await spool.append([{ index: 'test-logs', body: { message: 'gone' } }])
+      readdirSync(dir).forEach((name) => unlinkSync(join(dir, name)))
+
+      const send = jest.fn()
+      await expect(spool.replay(send)).resolves.toBe(0)
+
+      expect(send).not.toHaveBeenCalled()
+      await expect(spool.hasPending()).resolves.toBe(false)
+    })
+
+    it('should refuse documents beyond maxTotalBytes', async () => {
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        spool: { directory: dir, maxTotalBytes: 80 },
+      })
+
+      await expect(
+        spoolLogger.spool?.append([
+          { index: 'test-logs', body: { message: 'first' } },
+          { index: 'test-logs', body: { message: 'second' } },
+        ])
+      ).resolves.toBe(1)
+      expect(spoolLogger.spool?.stats.dropped).toBe(1)
+    })
+
+    it('should spool batches the buffer could not deliver', async () => {
+      const onDrop = jest.fn()
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 1, delayMs: 1 },
+        buffer: { flushIntervalMs: 60 * 1000, onDrop },
+        spool: { directory: dir },
+      })
+      getClient(spoolLogger).bulk.mockRejectedValueOnce(
+        new Error('ECONNREFUSED')
+      )
+
+      await spoolLogger.log('info', 'buffered')
+      await spoolLogger.flush()
+
+      expect(readSpool()).toEqual([
+        {
+          index: 'test-logs',
+          body: expect.objectContaining({ message: 'buffered' }),
+        },
+      ])
+      expect(onDrop).not.toHaveBeenCalled()
+    })
+
+    it('should start a replay when the health check succeeds', async () => {
+      const spoolLogger = new ElasticLogger({
+        ...mockConfig,
+        spool: { directory: dir },
+      })
+      await spoolLogger.spool?.append([
+        { index: 'test-logs', body: { message: 'pending' } },
+      ])
+      const replaySpool = jest
+        .spyOn(spoolLogger, 'replaySpool')
+        .mockResolvedValue(1)
+
+      await expect(spoolLogger.healthCheck()).resolves.toBe(true)
+
+      expect(replaySpool).toHaveBeenCalled()
+    })
+  })
+
+  describe('dead letter', () => {
+    let dir: string
+
+    const getClient = (deadLetterLogger: ElasticLogger) =>
+      (
+        deadLetterLogger as unknown as {
+          client: {
+            index: jest.Mock
+            bulk: jest.Mock
+            search: jest.Mock
+            indices: Record<string, jest.Mock>
+          }
+        }
+      ).client
+
+    const mappingError = new Error(
+      'mapper_parsing_exception: failed to parse field [duration]'
+    )
+
+    const transaction: LogTransaction = {
+      name: 'checkout',
+      microservice: 'orders',
+      operation: 'create',
+      status: 'success',
+      duration: 12,
+    }
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'star-deadletter-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should retry transactions into the transactions index after fixing the mapping', async () => {
+      const client = getClient(logger)
+      client.indices['exists'] = jest.fn().mockResolvedValue({ body: true })
+      client.indices['getMapping'] = jest.fn().mockResolvedValue({
+        body: {
+          'test-logs-v1': {
+            mappings: { properties: { message: { type: 'text' } } },
+          },
+        },
+      })
+      client.index.mockRejectedValueOnce(mappingError)
+
+      await logger.logTransaction(transaction)
+
+      expect(client.index).toHaveBeenLastCalledWith(
+        expect.objectContaining({ index: 'test-logs-transactions' })
+      )
+    })
+
+    it('should store documents that are still rejected in the dead-letter index', async () => {
+      const deadLetterLogger = new ElasticLogger({
+        ...mockConfig,
+        deadLetter: true,
+      })
+      const client = getClient(deadLetterLogger)
+      client.index.mockRejectedValue(mappingError)
+
+      await expect(
+        deadLetterLogger.logTransaction(transaction)
+      ).resolves.toBeUndefined()
+
+      const body = client.bulk.mock.calls[0][0].body
+      expect(body[0]).toEqual({ index: { _index: 'test-logs-deadletter' } })
+      expect(body[1]).toEqual(
+        expect.objectContaining({
+          targetIndex: 'test-logs-transactions',
+          reason: mappingError.message,
+          service: 'test-service',
+        })
+      )
+      expect(JSON.parse(body[1].payload)).toEqual(
+        expect.objectContaining({ name: 'checkout', duration: 12 })
+      )
+    })
+
+    it('should write items rejected in a bulk request to the dead-letter file', async () => {
+      const file = join(dir, 'deadletter.ndjson')
+      const onDrop = jest.fn()
+      const deadLetterLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: { flushIntervalMs: 60 * 1000, onDrop },
+        deadLetter: { file },
+      })
+      getClient(deadLetterLogger).bulk.mockResolvedValueOnce({
+        body: {
+          errors: true,
+          items: [
+            {
+              index: {
+                status: 400,
+                error: {
+                  type: 'mapper_parsing_exception',
+                  reason: 'failed to parse field [userId]',
+                },
+              },
+            },
+          ],
+        },
+      })
+
+      await deadLetterLogger.log('info', 'invalid', { userId: { id: 1 } })
+      await deadLetterLogger.flush()
+
+      const [entry] = readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+      expect(entry).toEqual(
+        expect.objectContaining({
+          targetIndex: 'test-logs',
+          reason: 'failed to parse field [userId]',
+          status: 400,
+        })
+      )
+      expect(onDrop).not.toHaveBeenCalled()
+    })
+
+    it('should replay the dead-letter file and keep what fails again', async () => {
+      const file = join(dir, 'deadletter.ndjson')
+      const entry = (message: string, targetIndex = 'test-logs') =>
+        JSON.stringify({
+          timestamp: new Date().toISOString(),
+          service: 'test-service',
+          environment: 'test',
+          targetIndex,
+          reason: 'mapper_parsing_exception',
+          payload: JSON.stringify({ message }),
+        })
+      writeFileSync(
+        file,
+        [
+          entry('fixed'),
+          entry('still invalid'),
+          entry('other', 'other-logs'),
+        ].join('\n')
+      )
+      const deadLetterLogger = new ElasticLogger({
+        ...mockConfig,
+        deadLetter: { file },
+      })
+      const client = getClient(deadLetterLogger)
+      client.bulk.mockResolvedValueOnce({
+        body: {
+          errors: true,
+          items: [
+            { index: { status: 201 } },
+            {
+              index: {
+                status: 400,
+                error: { type: 'mapper_parsing_exception' },
+              },
+            },
+          ],
+        },
+      })
+
+      await expect(
+        deadLetterLogger.replayDeadLetters({ targetIndex: 'test-logs' })
+      ).resolves.toEqual({ replayed: 1, failed: 1 })
+
+      expect(client.bulk.mock.calls[0][0].body).toEqual([
+        { index: { _index: 'test-logs' } },
+        { message: 'fixed' },
+        { index: { _index: 'test-logs' } },
+        { message: 'still invalid' },
+      ])
+      const remaining = readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(JSON.parse(line).payload).message)
+      expect(remaining.sort()).toEqual(['other', 'still invalid'])
+    })
+
+    it('should replay the dead-letter index and delete replayed entries', async () => {
+      const deadLetterLogger = new ElasticLogger({
+        ...mockConfig,
+        deadLetter: true,
+      })
+      const client = getClient(deadLetterLogger)
+      client.search.mockResolvedValueOnce({
+        body: {
+          hits: {
+            hits: [
+              {
+                _index: 'test-logs-deadletter',
+                _id: 'dl-1',
+                _score: 1,
+                _source: {
+                  targetIndex: 'test-logs-transactions',
+                  payload: JSON.stringify({ name: 'checkout' }),
+                },
+              },
+            ],
+          },
+        },
+      })
+
+      await expect(
+        deadLetterLogger.replayDeadLetters({ batchSize: 10 })
+      ).resolves.toEqual({ replayed: 1, failed: 0 })
+
+      expect(client.bulk.mock.calls[0][0].body).toEqual([
+        { index: { _index: 'test-logs-transactions' } },
+        { name: 'checkout' },
+      ])
+      expect(client.bulk.mock.calls[1][0].body).toEqual([
+        { delete: { _index: 'test-logs-deadletter', _id: 'dl-1' } },
+      ])
+      expect(client.indices['refresh']).toHaveBeenCalledWith({
+        index: 'test-logs-deadletter',
+      })
+    })
+
+    it('should require a dead letter to replay', async () => {
+      await expect(logger.replayDeadLetters()).rejects.toThrow(
+        'Dead letter is not configured for this logger'
+      )
+    })
+  })
+
+  describe('close', () => {
+    const getClient = (closingLogger: ElasticLogger) =>
+      (
+        closingLogger as unknown as {
+          client: { index: jest.Mock; bulk: jest.Mock; close: jest.Mock }
+        }
+      ).client
+
+    it('should wait for fire-and-forget writes before closing the client', async () => {
+      const client = getClient(logger)
+      let release: () => void = () => undefined
+      client.index.mockImplementationOnce(
+        () => new Promise((resolve) => (release = () => resolve({ body: {} })))
+      )
+
+      setImmediate(() => void logger.log('info', 'last words'))
+      const closed = logger.close()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(client.close).not.toHaveBeenCalled()
+
+      release()
+      await closed
+
+      expect(client.index).toHaveBeenCalledTimes(1)
+      expect(client.close).toHaveBeenCalledTimes(1)
+      await expect(logger.log('info', 'too late')).rejects.toThrow(
+        'ElasticLogger is closed'
+      )
+    })
+
+    it('should send buffered documents before closing', async () => {
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        buffer: { flushIntervalMs: 60 * 1000 },
+      })
+      const client = getClient(bufferedLogger)
+
+      await bufferedLogger.log('info', 'buffered')
+      await bufferedLogger.close()
+
+      expect(client.bulk).toHaveBeenCalledTimes(1)
+      expect(client.close).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the client when the timeout passes', async () => {
+      const client = getClient(logger)
+      client.index.mockImplementationOnce(() => new Promise(() => undefined))
+
+      void logger.log('info', 'stuck')
+      await logger.close({ timeoutMs: 20 })
+
+      expect(client.close).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close loggers on a termination signal', async () => {
+      const kill = jest.spyOn(process, 'kill').mockImplementation(() => true)
+      const close = jest.spyOn(logger, 'close')
+      const unregister = closeOnShutdown(logger, {
+        signals: ['SIGUSR2'],
+        timeoutMs: 100,
+      })
+
+      process.emit('SIGUSR2', 'SIGUSR2')
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      expect(close).toHaveBeenCalledWith({ timeoutMs: 100 })
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGUSR2')
+      expect(process.listenerCount('SIGUSR2')).toBe(0)
+
+      unregister()
+      kill.mockRestore()
+    })
+  })
+
+  describe('index strategy', () => {
+    const getClient = (strategyLogger: ElasticLogger) =>
+      (
+        strategyLogger as unknown as {
+          client: {
+            index: jest.Mock
+            bulk: jest.Mock
+            search: jest.Mock
+            indices: { refresh: jest.Mock }
+          }
+        }
+      ).client
+
+    it('should name time-based indices from the UTC date', () => {
+      const date = new Date('2026-10-19T23:30:00Z')
+
+      expect(resolveIndexName('logs', 'fixed', date)).toBe('logs')
+      expect(resolveIndexName('logs', 'daily', date)).toBe('logs-2026.10.19')
+      expect(resolveIndexName('logs', 'weekly', date)).toBe('logs-2026.w43')
+      expect(resolveIndexName('logs', 'monthly', date)).toBe('logs-2026.10')
+      expect(resolveIndexName('logs', 'data-stream', date)).toBe('logs')
+      expect(
+        resolveIndexName('logs', 'weekly', new Date('2027-01-01T00:00:00Z'))
+      ).toBe('logs-2026.w53')
+    })
+
+    it('should build search patterns that leave out sibling indices', () => {
+      expect(getIndexPattern('logs', 'fixed', ['logs-transactions*'])).toBe(
+        'logs'
+      )
+      expect(getIndexPattern('logs', 'monthly', ['logs-transactions*'])).toBe(
+        'logs-*,-logs-transactions*'
+      )
+    })
+
+    it('should write, search and refresh daily indices', async () => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') })
+      try {
+        const dailyLogger = new ElasticLogger({
+          ...mockConfig,
+          indexStrategy: 'daily',
+          deadLetter: true,
+        })
+        const client = getClient(dailyLogger)
+
+        await dailyLogger.log('info', 'rolled')
+        await dailyLogger.logTransaction({
+          name: 'checkout',
+          microservice: 'orders',
+          operation: 'create',
+          status: 'success',
+          duration: 12,
+        })
+        await dailyLogger.getSystemLogs('rolled')
+        await dailyLogger.getLogsTransactions('checkout')
+        await dailyLogger.flush()
+
+        expect(client.index.mock.calls.map(([params]) => params.index)).toEqual(
+          ['test-logs-2026.10.19', 'test-logs-transactions-2026.10.19']
+        )
+        expect(
+          client.search.mock.calls.map(([params]) => params.index)
+        ).toEqual([
+          'test-logs-*,-test-logs-transactions*,-test-logs-deadletter',
+          'test-logs-transactions-*',
+        ])
+        expect(client.indices.refresh).toHaveBeenCalledWith({
+          index: 'test-logs-transactions-*',
+        })
+      } finally {
+        jest.useRealTimers()
+      }
+    })
+
+    it('should create documents with @timestamp in data streams', async () => {
+      const streamLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'data-stream',
+      })
+      const client = getClient(streamLogger)
+
+      await streamLogger.log('info', 'streamed')
+      await streamLogger.getSystemLogs('streamed')
+
+      const params = client.index.mock.calls[0][0]
+      expect(params).toEqual(
+        expect.objectContaining({ index: 'test-logs', op_type: 'create' })
+      )
+      expect(params.body['@timestamp']).toBe(params.body.timestamp)
+      expect(client.search.mock.calls[0][0].index).toBe('test-logs')
+
+      const bufferedStream = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'data-stream',
+        buffer: { flushIntervalMs: 60 * 1000 },
+      })
+      await bufferedStream.log('info', 'batched')
+      await bufferedStream.flush()
+
+      expect(getClient(bufferedStream).bulk.mock.calls[0][0].body[0]).toEqual({
+        create: { _index: 'test-logs' },
+      })
+    })
+  })
+
+  describe('index infrastructure', () => {
+    const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 })
+
+    const mockInfrastructure = (infraLogger: ElasticLogger) => {
+      const client = (
+        infraLogger as unknown as {
+          client: {
+            indices: Record<string, jest.Mock>
+            transport: { request: jest.Mock }
+          }
+        }
+      ).client
+      const templates = new Map<string, Record<string, unknown>>()
+      const policies = new Map<string, Record<string, unknown>>()
+
+      client.indices['getIndexTemplate'] = jest.fn(async ({ name }) => {
+        const template = templates.get(name)
+        if (!template) throw notFound
+        return {
+          body: { index_templates: [{ name, index_template: template }] },
+        }
+      })
+      client.indices['putIndexTemplate'] = jest.fn(async ({ name, body }) => {
+        templates.set(name, body)
+        return { body: { acknowledged: true } }
+      })
+      client.transport = {
+        request: jest.fn(async ({ method, path, body }) => {
+          const id = decodeURIComponent(path.split('/').pop())
+          if (method === 'PUT') {
+            policies.set(id, body.policy)
+            return { body: { _id: id } }
+          }
+          const policy = policies.get(id)
+          if (!policy) throw notFound
+          return { body: { _id: id, _seq_no: 4, _primary_term: 1, policy } }
+        }),
+      }
+
+      return { client, templates, policies }
+    }
+
+    it('should create templates and retention policies for daily indices', async () => {
+      const dailyLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'daily',
+        deadLetter: true,
+      })
+      const { templates, policies } = mockInfrastructure(dailyLogger)
+
+      const result = await dailyLogger.ensureIndexInfrastructure({
+        retentionDays: 30,
+        transactionRetentionDays: 90,
+      })
+
+      expect(result.changed).toBe(true)
+      expect(result.changes.map((change) => change.action)).toEqual(
+        Array(6).fill('created')
+      )
+      expect(templates.get('test-logs')).toEqual(
+        expect.objectContaining({
+          index_patterns: ['test-logs-*'],
+          priority: 100,
+          version: 1,
+        })
+      )
+      expect(templates.get('test-logs-transactions')).toEqual(
+        expect.objectContaining({
+          index_patterns: ['test-logs-transactions-*'],
+          priority: 200,
+        })
+      )
+      expect(templates.get('test-logs-deadletter')).toEqual(
+        expect.objectContaining({
+          index_patterns: ['test-logs-deadletter'],
+          priority: 300,
+        })
+      )
+      expect(policies.get('test-logs-retention')?.['description']).toMatch(
+        /delete after 30 days$/
+      )
+      expect(
+        policies.get('test-logs-transactions-retention')?.['description']
+      ).toMatch(/delete after 90 days$/)
+      expect(
+        policies.get('test-logs-deadletter-retention')?.['description']
+      ).toMatch(/: keep$/)
+    })
+
+    it('should leave up to date templates and policies unchanged', async () => {
+      const dailyLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'daily',
+      })
+      const { client } = mockInfrastructure(dailyLogger)
+
+      await dailyLogger.ensureIndexInfrastructure({ retentionDays: 30 })
+      client.indices['putIndexTemplate']!.mockClear()
+      client.transport.request.mockClear()
+
+      const result = await dailyLogger.ensureIndexInfrastructure({
+        retentionDays: 30,
+      })
+
+      expect(result.changed).toBe(false)
+      expect(
+        result.changes.every((change) => change.action === 'unchanged')
+      ).toBe(true)
+      expect(client.indices['putIndexTemplate']).not.toHaveBeenCalled()
+      expect(
+        client.transport.request.mock.calls.every(
+          ([params]) => params.method === 'GET'
+        )
+      ).toBe(true)
+    })
+
+    it('should update changed definitions and skip ones it does not manage', async () => {
+      const dailyLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'daily',
+      })
+      const { client, templates } = mockInfrastructure(dailyLogger)
+
+      await dailyLogger.ensureIndexInfrastructure({ retentionDays: 30 })
+      templates.set('test-logs-transactions', { index_patterns: ['custom'] })
+
+      const result = await dailyLogger.ensureIndexInfrastructure({
+        version: 2,
+        replicas: 2,
+        retentionDays: 14,
+      })
+
+      expect(result.changes).toEqual([
+        { kind: 'index-template', name: 'test-logs', action: 'updated' },
+        {
+          kind: 'index-template',
+          name: 'test-logs-transactions',
+          action: 'skipped',
+          reason: 'Not managed by star-node-stack-helper',
+        },
+        { kind: 'ism-policy', name: 'test-logs-retention', action: 'updated' },
+        {
+          kind: 'ism-policy',
+          name: 'test-logs-transactions-retention',
+          action: 'updated',
+        },
+      ])
+      expect(client.transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'PUT',
+          path: '/_plugins/_ism/policies/test-logs-retention',
+          querystring: { if_seq_no: 4, if_primary_term: 1 },
+        })
+      )
+
+      const downgrade = await dailyLogger.ensureIndexInfrastructure({
+        retentionDays: 14,
+      })
+      expect(downgrade.changed).toBe(false)
+      expect(downgrade.changes[0]).toEqual(
+        expect.objectContaining({ action: 'skipped' })
+      )
+    })
+
+    it('should roll over data streams and skip retention for a fixed index', async () => {
+      const streamLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'data-stream',
+      })
+      const { templates, policies } = mockInfrastructure(streamLogger)
+
+      await streamLogger.ensureIndexInfrastructure({ retentionDays: 7 })
+
+      expect(templates.get('test-logs')).toEqual(
+        expect.objectContaining({
+          index_patterns: ['test-logs'],
+          data_stream: {},
+        })
+      )
+      expect(policies.get('test-logs-retention')).toEqual(
+        expect.objectContaining({
+          ism_template: [
+            { index_patterns: ['.ds-test-logs-*'], priority: 100 },
+          ],
+          states: expect.arrayContaining([
+            expect.objectContaining({
+              actions: [{ rollover: { min_index_age: '1d' } }],
+            }),
+          ]),
+        })
+      )
+
+      const { client } = mockInfrastructure(logger)
+      const result = await logger.ensureIndexInfrastructure({
+        retentionDays: 7,
+      })
+
+      expect(result.changes[2]).toEqual(
+        expect.objectContaining({ kind: 'ism-policy', action: 'skipped' })
+      )
+      expect(client.transport.request).not.toHaveBeenCalled()
+    })
+
+    it('should wrap API errors', async () => {
+      const { client } = mockInfrastructure(logger)
+      client.indices['getIndexTemplate']!.mockRejectedValueOnce(
+        new Error('Forbidden')
+      )
+
+      await expect(logger.ensureIndexInfrastructure()).rejects.toThrow(
+        'Failed to ensure index infrastructure: Forbidden'
+      )
+    })
+  })
+
+  describe('migrateIndex', () => {
+    const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 })
+
+    const mockCluster = (
+      migrationLogger: ElasticLogger,
+      state: {
+        indices: Record<string, number>
+        aliases: Record<string, string[]>
+      }
+    ) => {
+      const client = (
+        migrationLogger as unknown as {
+          client: {
+            indices: Record<string, jest.Mock>
+            reindex: jest.Mock
+            tasks: { get: jest.Mock }
+          }
+        }
+      ).client
+      let pending: { created: number; failures: unknown[] } | undefined
+
+      client.indices['getAlias'] = jest.fn(async ({ name }) => {
+        const indices = state.aliases[name]
+        if (!indices?.length) throw notFound
+        return {
+          body: Object.fromEntries(
+            indices.map((index) => [index, { aliases: { [name]: {} } }])
+          ),
+        }
+      })
+      client.indices['exists'] = jest.fn(async ({ index }) => ({
+        body: index in state.indices,
+      }))
+      client.indices['create'] = jest.fn(async ({ index }) => {
+        state.indices[index] = 0
+        return { body: { acknowledged: true } }
+      })
+      client.indices['putSettings'] = jest.fn(async () => ({ body: {} }))
+      client.indices['clone'] = jest.fn(async ({ index, target }) => {
+        state.indices[target] = state.indices[index] ?? 0
+        return { body: { acknowledged: true } }
+      })
+      client.indices['delete'] = jest.fn(async ({ index }) => {
+        ;[index].flat().forEach((name: string) => delete state.indices[name])
+        return { body: {} }
+      })
+      client.indices['updateAliases'] = jest.fn(async ({ body }) => {
+        for (const action of body.actions) {
+          if (action.remove_index) {
+            delete state.indices[action.remove_index.index]
+          } else if (action.remove) {
+            const { index, alias } = action.remove
+            state.aliases[alias] = (state.aliases[alias] || []).filter(
+              (name) => name !== index
+            )
+          } else {
+            const { index, alias } = action.add
+            state.aliases[alias] = [...(state.aliases[alias] || []), index]
+          }
+        }
+        return { body: { acknowledged: true } }
+      })
+      client.reindex = jest.fn(async ({ body }) => {
+        const sources: string[] = body.source.index
+        const total = sources.reduce(
+          (sum, name) => sum + (state.indices[name] || 0),
+          0
+        )
+        const copied = state.indices[body.dest.index] || 0
+        const created = body.dest.op_type === 'create' ? total - copied : total
+        state.indices[body.dest.index] = copied + created
+        pending = { created, failures: [] }
+        return { body: { task: 'node-1:42' } }
+      })
+      client.tasks = {
+        get: jest
+          .fn()
+          .mockResolvedValueOnce({ body: { completed: false } })
+          .mockImplementation(async () => ({
+            body: { completed: true, response: pending },
+          })),
+      }
+
+      return client
+    }
+
+    it('should create the first version and the alias for a new index', async () => {
+      const state = { indices: {}, aliases: {} }
+      const client = mockCluster(logger, state)
+
+      const result = await logger.migrateIndex()
+
+      expect(result).toEqual({
+        alias: 'test-logs',
+        index: 'test-logs-v1',
+        previousIndices: [],
+        reindexed: 0,
+        caughtUp: 0,
+        deletedOldIndices: false,
+      })
+      expect(state.aliases).toEqual({ 'test-logs': ['test-logs-v1'] })
+      expect(client.reindex).not.toHaveBeenCalled()
+      expect(client.indices['create']).toHaveBeenCalledWith({
+        index: 'test-logs-v1',
+        body: expect.objectContaining({
+          mappings: expect.objectContaining({
+            properties: expect.objectContaining({ level: { type: 'keyword' } }),
+          }),
+        }),
+      })
+    })
+
+    it('should reindex into the next version and swap the alias atomically', async () => {
+      const state = {
+        indices: { 'test-logs-v1': 3 } as Record<string, number>,
+        aliases: { 'test-logs': ['test-logs-v1'] } as Record<string, string[]>,
+      }
+      const client = mockCluster(logger, state)
+      const script = {
+        source: 'ctx._source.level = ctx._source.level.toLowerCase()',
+      }
+
+      const result = await logger.migrateIndex({ script, pollIntervalMs: 0 })
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          index: 'test-logs-v2',
+          previousIndices: ['test-logs-v1'],
+          reindexed: 3,
+          caughtUp: 0,
+          deletedOldIndices: false,
+        })
+      )
+      expect(client.reindex.mock.calls[0][0]).toEqual({
+        wait_for_completion: false,
+        refresh: true,
+        body: {
+          source: { index: ['test-logs-v1'] },
+          dest: { index: 'test-logs-v2' },
+          script: { lang: 'painless', ...script },
+        },
+      })
+      expect(client.indices['updateAliases']).toHaveBeenCalledWith({
+        body: {
+          actions: [
+            { remove: { index: 'test-logs-v1', alias: 'test-logs' } },
+            {
+              add: {
+                index: 'test-logs-v2',
+                alias: 'test-logs',
+                is_write_index: true,
+              },
+            },
+          ],
+        },
+      })
+      expect(client.reindex.mock.calls[1][0].body).toEqual(
+        expect.objectContaining({
+          conflicts: 'proceed',
+          dest: { index: 'test-logs-v2', op_type: 'create' },
+        })
+      )
+      expect(state.indices).toEqual({ 'test-logs-v1': 3, 'test-logs-v2': 3 })
+      expect(client.indices['delete']).not.toHaveBeenCalled()
+
+      const next = await logger.migrateIndex({
+        target: 'transactions',
+        deleteOldIndex: true,
+      })
+      expect(next.alias).toBe('test-logs-transactions')
+
+      state.indices['test-logs-v2'] = 5
+      const cleaned = await logger.migrateIndex({ deleteOldIndex: true })
+      expect(cleaned).toEqual(
+        expect.objectContaining({
+          index: 'test-logs-v3',
+          deletedOldIndices: true,
+        })
+      )
+      expect(state.indices['test-logs-v2']).toBeUndefined()
+      expect(state.indices['test-logs-v3']).toBe(5)
+    })
+
+    it('should replace a concrete index with the alias', async () => {
+      const state = {
+        indices: { 'test-logs': 4 } as Record<string, number>,
+        aliases: {} as Record<string, string[]>,
+      }
+      const client = mockCluster(logger, state)
+
+      const result = await logger.migrateIndex({ pollIntervalMs: 0 })
+
+      expect(client.indices['putSettings']).toHaveBeenCalledWith({
+        index: 'test-logs',
+        body: { index: { blocks: { write: true } } },
+      })
+      expect(client.indices['updateAliases']).toHaveBeenCalledWith({
+        body: {
+          actions: [
+            {
+              add: {
+                index: 'test-logs-v1',
+                alias: 'test-logs',
+                is_write_index: true,
+              },
+            },
+            { remove_index: { index: 'test-logs' } },
+          ],
+        },
+      })
+      expect(client.indices['clone']).toHaveBeenCalledWith({
+        index: 'test-logs',
+        target: 'test-logs-v0',
+      })
+      expect(result).toEqual(
+        expect.objectContaining({
+          index: 'test-logs-v1',
+          previousIndices: ['test-logs-v0'],
+          reindexed: 4,
+          deletedOldIndices: false,
+        })
+      )
+      expect(state).toEqual({
+        indices: { 'test-logs-v0': 4, 'test-logs-v1': 4 },
+        aliases: { 'test-logs': ['test-logs-v1'] },
+      })
+
+      await logger.migrateIndex({ deleteOldIndex: true })
+      expect(state.indices).toEqual({ 'test-logs-v0': 4, 'test-logs-v2': 4 })
+    })
+
+    it('should hold writes from this logger until the alias replaces the index', async () => {
+      const state = {
+        indices: { 'test-logs': 1 } as Record<string, number>,
+        aliases: {} as Record<string, string[]>,
+      }
+      const client = mockCluster(logger, state)
+      const index = (logger as unknown as { client: { index: jest.Mock } })
+        .client.index
+      const aliasAtWrite: Array<string[] | undefined> = []
+      index.mockImplementation(async () => {
+        aliasAtWrite.push(state.aliases['test-logs'])
+        return { body: { result: 'created' } }
+      })
+
+      let during: Promise<void> | undefined
+      client.indices['clone']!.mockImplementationOnce(
+        async ({ index: source, target }) => {
+          during = logger.log('info', 'written during the migration')
+          await new Promise((resolve) => setImmediate(resolve))
+          expect(index).not.toHaveBeenCalled()
+
+          state.indices[target] = state.indices[source] ?? 0
+          return { body: { acknowledged: true } }
+        }
+      )
+
+      await logger.migrateIndex({ pollIntervalMs: 0 })
+      await expect(during).resolves.toBeUndefined()
+
+      expect(index).toHaveBeenCalledTimes(1)
+      expect(index.mock.calls[0][0].index).toBe('test-logs')
+      expect(aliasAtWrite).toEqual([['test-logs-v1']])
+    })
+
+    it('should retry writes refused by a write block', async () => {
+      const blocked = new errors.ResponseError({
+        body: {
+          error: {
+            type: 'cluster_block_exception',
+            reason:
+              'index [test-logs] blocked by: [FORBIDDEN/8/index write (api)]',
+          },
+        },
+        statusCode: 403,
+        headers: {},
+        warnings: null,
+        meta: {},
+      } as unknown as ApiResponse)
+      const retryLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 3, delayMs: 1 },
+      })
+      const index = (retryLogger as unknown as { client: { index: jest.Mock } })
+        .client.index
+      index.mockRejectedValueOnce(blocked)
+
+      await expect(
+        retryLogger.log('info', 'after the block')
+      ).resolves.toBeUndefined()
+      expect(index).toHaveBeenCalledTimes(2)
+
+      const bufferedLogger = new ElasticLogger({
+        ...mockConfig,
+        retryConfig: { maxAttempts: 3, delayMs: 1 },
+        buffer: { flushIntervalMs: 60 * 1000 },
+      })
+      const bulk = (
+        bufferedLogger as unknown as { client: { bulk: jest.Mock } }
+      ).client.bulk
+      bulk.mockResolvedValueOnce({
+        body: {
+          errors: true,
+          items: [
+            {
+              index: {
+                status: 403,
+                error: { type: 'cluster_block_exception', reason: 'blocked' },
+              },
+            },
+          ],
+        },
+      })
+
+      await bufferedLogger.log('info', 'queued')
+      await bufferedLogger.flush()
+
+      expect(bulk).toHaveBeenCalledTimes(2)
+      expect(bufferedLogger.buffer?.stats).toEqual(
+        expect.objectContaining({ sent: 1, dropped: 0 })
+      )
+    })
+
+    it('should keep the old index when the reindex fails', async () => {
+      const state = {
+        indices: { 'test-logs': 2 } as Record<string, number>,
+        aliases: {} as Record<string, string[]>,
+      }
+      const client = mockCluster(logger, state)
+      client.tasks.get.mockReset().mockResolvedValue({
+        body: {
+          completed: true,
+          response: {
+            created: 1,
+            failures: [{ cause: { reason: 'failed to parse field [level]' } }],
+          },
+        },
+      })
+
+      await expect(logger.migrateIndex()).rejects.toThrow(
+        'Failed to migrate index test-logs: 1 documents failed to reindex into test-logs-v1: failed to parse field [level]'
+      )
+      expect(client.indices['updateAliases']).not.toHaveBeenCalled()
+      expect(client.indices['putSettings']).not.toHaveBeenCalled()
+      expect(state.indices).toEqual({ 'test-logs': 2 })
+
+      const recreated = await logger.recreateIndex()
+      expect(recreated.success).toBe(false)
+      expect(state.indices).toEqual({ 'test-logs': 2 })
+    })
+
+    it('should refuse time-based and data stream strategies', async () => {
+      const dailyLogger = new ElasticLogger({
+        ...mockConfig,
+        indexStrategy: 'daily',
+      })
+
+      await expect(dailyLogger.migrateIndex()).rejects.toThrow(
+        'Index migration needs the fixed index strategy'
+      )
+    })
+  })
 })
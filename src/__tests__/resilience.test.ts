@@ -0,0 +1,291 @@
+/// <reference types="jest" />
+import { errors } from '@opensearch-project/opensearch'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  HttpError,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  retryWithBackoff,
+} from '../resilience'
+import { ElasticLogger } from '../logger'
+
+const networkError = (code: string) =>
+  Object.assign(new Error(`connect ${code}`), { code })
+
+describe('Resilience', () => {
+  describe('computeBackoffDelay', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should double the delay up to the cap without jitter', () => {
+      const config = {
+        maxAttempts: 10,
+        delayMs: 100,
+        maxDelayMs: 500,
+        jitter: false,
+      }
+
+      expect(computeBackoffDelay(1, config)).toBe(100)
+      expect(computeBackoffDelay(3, config)).toBe(400)
+      expect(computeBackoffDelay(6, config)).toBe(500)
+    })
+
+    it('should pick a random delay below the ceiling with jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5)
+
+      expect(computeBackoffDelay(3, { maxAttempts: 5, delayMs: 100 })).toBe(200)
+    })
+  })
+
+  describe('isRetryableError', () => {
+    it('should retry transient errors only', () => {
+      expect(isRetryableError(networkError('ECONNRESET'))).toBe(true)
+      expect(
+        isRetryableError(
+          new Error('fetch failed', { cause: networkError('ENOTFOUND') })
+        )
+      ).toBe(true)
+      expect(isRetryableError(new SyntaxError('Unexpected token <'))).toBe(
+        false
+      )
+      expect(isRetryableError(new Error('Secret x not found or empty'))).toBe(
+        false
+      )
+      expect(isRetryableError(new HttpError(503))).toBe(true)
+      expect(isRetryableError(new HttpError(429))).toBe(true)
+      expect(isRetryableError(new HttpError(401))).toBe(false)
+      expect(isRetryableError({ meta: { statusCode: 400 } })).toBe(false)
+      expect(isRetryableError({ $metadata: { httpStatusCode: 500 } })).toBe(
+        true
+      )
+      expect(isRetryableError(new CircuitOpenError('slack', 1000))).toBe(false)
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2')).toBe(2000)
+      expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0)
+      expect(parseRetryAfter('soon')).toBeUndefined()
+      expect(parseRetryAfter(null)).toBeUndefined()
+    })
+  })
+
+  describe('retryWithBackoff', () => {
+    it('should retry until the operation succeeds', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(networkError('ECONNRESET'))
+        .mockResolvedValueOnce('done')
+
+      await expect(
+        retryWithBackoff(operation, { maxAttempts: 3, delayMs: 1 })
+      ).resolves.toBe('done')
+      expect(operation).toHaveBeenCalledWith(2)
+    })
+
+    it('should not retry errors rejected by isRetryable', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpError(403))
+
+      await expect(
+        retryWithBackoff(operation, { maxAttempts: 3, delayMs: 1 })
+      ).rejects.toThrow('HTTP 403')
+      expect(operation).toHaveBeenCalledTimes(1)
+
+      const custom = jest.fn().mockRejectedValue(new HttpError(503))
+      await expect(
+        retryWithBackoff(custom, {
+          maxAttempts: 3,
+          delayMs: 1,
+          isRetryable: () => false,
+        })
+      ).rejects.toThrow('HTTP 503')
+      expect(custom).toHaveBeenCalledTimes(1)
+    })
+
+    it('should wait at least as long as Retry-After asks', async () => {
+      const onRetry = jest.fn()
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 30))
+        .mockResolvedValueOnce('done')
+
+      await retryWithBackoff(operation, { maxAttempts: 2, delayMs: 1, onRetry })
+
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, delayMs: 30 })
+      )
+    })
+
+    it('should cap a long Retry-After at maxDelayMs', async () => {
+      const onRetry = jest.fn()
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(
+          new HttpError(503, 'Unavailable', 10 * 60 * 1000)
+        )
+        .mockResolvedValueOnce('done')
+
+      await retryWithBackoff(operation, {
+        maxAttempts: 2,
+        delayMs: 1,
+        maxDelayMs: 20,
+        onRetry,
+      })
+
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, delayMs: 20 })
+      )
+    })
+
+    it('should not retry errors without a status that are not network failures', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValue(new SyntaxError('Unexpected token < in JSON'))
+
+      await expect(
+        retryWithBackoff(operation, { maxAttempts: 3, delayMs: 1 })
+      ).rejects.toThrow(SyntaxError)
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop when the next delay would exceed maxElapsedMs', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpError(503))
+
+      await expect(
+        retryWithBackoff(operation, {
+          maxAttempts: 5,
+          delayMs: 1000,
+          jitter: false,
+          maxElapsedMs: 500,
+        })
+      ).rejects.toThrow('HTTP 503')
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop waiting when the signal aborts', async () => {
+      const controller = new AbortController()
+      const operation = jest.fn().mockRejectedValue(new HttpError(503))
+
+      await expect(
+        retryWithBackoff(operation, {
+          maxAttempts: 3,
+          delayMs: 60 * 1000,
+          jitter: false,
+          signal: controller.signal,
+          onRetry: () => controller.abort(new Error('shutting down')),
+        })
+      ).rejects.toThrow('shutting down')
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('CircuitBreaker', () => {
+    const failing = () => Promise.reject(new Error('ECONNREFUSED'))
+
+    it('should open after the failure threshold and reject calls', async () => {
+      const onStateChange = jest.fn()
+      const breaker = new CircuitBreaker({
+        name: 'search',
+        failureThreshold: 2,
+        resetTimeoutMs: 60 * 1000,
+        onStateChange,
+      })
+
+      await expect(breaker.execute(failing)).rejects.toThrow('ECONNREFUSED')
+      expect(breaker.state).toBe('closed')
+      await expect(breaker.execute(failing)).rejects.toThrow('ECONNREFUSED')
+      expect(breaker.state).toBe('open')
+      expect(onStateChange).toHaveBeenCalledWith('open', 'closed')
+
+      const operation = jest.fn()
+      await expect(breaker.execute(operation)).rejects.toBeInstanceOf(
+        CircuitOpenError
+      )
+      expect(operation).not.toHaveBeenCalled()
+      expect(breaker.stats).toEqual(
+        expect.objectContaining({
+          state: 'open',
+          totalFailures: 2,
+          rejected: 1,
+          openedAt: expect.any(Date),
+        })
+      )
+    })
+
+    it('should close again after a successful trial call', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 20,
+      })
+
+      await expect(breaker.execute(failing)).rejects.toThrow()
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      expect(breaker.state).toBe('half-open')
+
+      await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok')
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should reopen when the trial call fails', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 20,
+      })
+
+      await expect(breaker.execute(failing)).rejects.toThrow()
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await expect(breaker.execute(failing)).rejects.toThrow('ECONNREFUSED')
+
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should not count errors rejected by isFailure', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        isFailure: isRetryableError,
+      })
+
+      await expect(
+        breaker.execute(() => Promise.reject(new HttpError(400)))
+      ).rejects.toThrow('HTTP 400')
+
+      expect(breaker.state).toBe('closed')
+    })
+  })
+
+  describe('ElasticLogger', () => {
+    it('should fail fast while the OpenSearch circuit is open', async () => {
+      const logger = new ElasticLogger({
+        node: 'http://localhost:9200',
+        username: 'admin',
+        password: 'admin',
+        index: 'test-logs',
+        service: 'test-service',
+        environment: 'test',
+        region: 'us-east-1',
+        retryConfig: { maxAttempts: 2, delayMs: 1 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60 * 1000 },
+      })
+      const index = (logger as unknown as { client: { index: jest.Mock } })
+        .client.index
+      index.mockRejectedValue(
+        new errors.ConnectionError('connect ECONNREFUSED 127.0.0.1:9200')
+      )
+
+      await expect(logger.log('info', 'first')).rejects.toThrow(
+        'Cannot connect to OpenSearch'
+      )
+      expect(index).toHaveBeenCalledTimes(2)
+      expect(logger.circuitBreaker.state).toBe('open')
+
+      await expect(logger.log('info', 'second')).rejects.toThrow(
+        'Circuit opensearch is open'
+      )
+      expect(index).toHaveBeenCalledTimes(2)
+    })
+  })
+})
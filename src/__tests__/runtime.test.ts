@@ -0,0 +1,285 @@
+/// <reference types="jest" />
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as runtimeModule from '../runtime'
+import { ElasticLogger } from '../logger'
+import { createPinoLogger } from '../logger-pino'
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void
+
+const CONTAINER_ID = 'a'.repeat(64)
+
+const startServer = (
+  handler: Handler
+): Promise<{ server: Server; url: string }> =>
+  new Promise((resolve) => {
+    const server = createServer(handler)
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({ server, url: `http://127.0.0.1:${port}` })
+    })
+  })
+
+const json = (res: ServerResponse, body: unknown) => {
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+const jwt = (claims: Record<string, unknown>) =>
+  [
+    Buffer.from('{"alg":"RS256"}').toString('base64url'),
+    Buffer.from(JSON.stringify(claims)).toString('base64url'),
+    'signature',
+  ].join('.')
+
+describe('detectRuntime', () => {
+  let dir: string
+  let server: Server | undefined
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runtime-'))
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve))
+      server = undefined
+    }
+  })
+
+  const baseOptions = () => ({
+    env: {},
+    serviceAccountDir: join(dir, 'serviceaccount'),
+    cgroupPath: join(dir, 'cgroup'),
+    disableImds: true,
+    timeoutMs: 200,
+  })
+
+  it('should describe a Lambda function from the environment', async () => {
+    const runtime = await runtimeModule.detectRuntime({
+      ...baseOptions(),
+      env: {
+        AWS_LAMBDA_FUNCTION_NAME: 'video-worker',
+        AWS_LAMBDA_FUNCTION_VERSION: '7',
+        AWS_REGION: 'us-east-2',
+      },
+    })
+
+    expect(runtime).toEqual({
+      platform: 'lambda',
+      region: 'us-east-2',
+      functionName: 'video-worker',
+      functionVersion: '7',
+    })
+  })
+
+  it('should describe an ECS task from the task metadata endpoint', async () => {
+    const taskArn =
+      'arn:aws:ecs:us-east-1:123456789012:task/prod/0123456789abcdef'
+    let url: string
+    ;({ server, url } = await startServer((req, res) => {
+      json(
+        res,
+        req.url === '/v4/task'
+          ? {
+              Cluster: 'arn:aws:ecs:us-east-1:123456789012:cluster/prod',
+              TaskARN: taskArn,
+              AvailabilityZone: 'us-east-1a',
+              LaunchType: 'FARGATE',
+            }
+          : { DockerId: CONTAINER_ID }
+      )
+    }))
+
+    const runtime = await runtimeModule.detectRuntime({
+      ...baseOptions(),
+      env: { ECS_CONTAINER_METADATA_URI_V4: `${url}/v4` },
+    })
+
+    expect(runtime).toEqual({
+      platform: 'ecs',
+      region: 'us-east-1',
+      accountId: '123456789012',
+      availabilityZone: 'us-east-1a',
+      cluster: 'arn:aws:ecs:us-east-1:123456789012:cluster/prod',
+      taskArn,
+      launchType: 'FARGATE',
+      containerId: CONTAINER_ID,
+    })
+  })
+
+  it('should describe an EKS pod from its service account token', async () => {
+    const serviceAccountDir = join(dir, 'serviceaccount')
+    mkdirSync(serviceAccountDir)
+    writeFileSync(
+      join(serviceAccountDir, 'token'),
+      jwt({
+        iss: 'https://oidc.eks.sa-east-1.amazonaws.com/id/ABCDEF',
+        'kubernetes.io': {
+          namespace: 'video',
+          pod: { name: 'video-api-7d9f' },
+          serviceaccount: { name: 'video-api' },
+        },
+      })
+    )
+    writeFileSync(
+      join(dir, 'cgroup'),
+      `0::/kubepods/besteffort/pod1/cri-containerd-${CONTAINER_ID}.scope`
+    )
+
+    const runtime = await runtimeModule.detectRuntime({
+      ...baseOptions(),
+      env: { AWS_ROLE_ARN: 'arn:aws:iam::123456789012:role/video-api' },
+    })
+
+    expect(runtime).toEqual({
+      platform: 'eks',
+      region: 'sa-east-1',
+      accountId: '123456789012',
+      namespace: 'video',
+      podName: 'video-api-7d9f',
+      serviceAccount: 'video-api',
+      containerId: CONTAINER_ID,
+    })
+  })
+
+  it('should describe an EC2 instance using IMDSv2', async () => {
+    const requests: string[] = []
+    let url: string
+    ;({ server, url } = await startServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`)
+      if (req.method === 'PUT' && req.url === '/latest/api/token') {
+        res.end('imds-token')
+      } else if (req.headers['x-aws-ec2-metadata-token'] !== 'imds-token') {
+        res.statusCode = 401
+        res.end()
+      } else {
+        json(res, {
+          region: 'us-west-2',
+          accountId: '123456789012',
+          availabilityZone: 'us-west-2b',
+          instanceId: 'i-0123456789abcdef0',
+          instanceType: 't3.medium',
+        })
+      }
+    }))
+
+    const runtime = await runtimeModule.detectRuntime({
+      ...baseOptions(),
+      disableImds: false,
+      imdsEndpoint: url,
+    })
+
+    expect(requests).toEqual([
+      'PUT /latest/api/token',
+      'GET /latest/dynamic/instance-identity/document',
+    ])
+    expect(runtime).toEqual({
+      platform: 'ec2',
+      region: 'us-west-2',
+      accountId: '123456789012',
+      availabilityZone: 'us-west-2b',
+      instanceId: 'i-0123456789abcdef0',
+      instanceType: 't3.medium',
+    })
+  })
+
+  it('should give up on endpoints that do not answer in time', async () => {
+    let url: string
+    ;({ server, url } = await startServer(() => {
+      // Never respond
+    }))
+
+    const startedAt = Date.now()
+    const runtime = await runtimeModule.detectRuntime({
+      ...baseOptions(),
+      env: { AWS_DEFAULT_REGION: 'eu-west-1' },
+      disableImds: false,
+      imdsEndpoint: url,
+      timeoutMs: 50,
+    })
+
+    expect(Date.now() - startedAt).toBeLessThan(1000)
+    expect(runtime).toEqual({ platform: 'unknown', region: 'eu-west-1' })
+    server!.closeAllConnections()
+  })
+
+  it('should attach the runtime to ElasticLogger documents when enabled', async () => {
+    jest
+      .spyOn(runtimeModule, 'detectRuntime')
+      .mockResolvedValue({ platform: 'ecs', region: 'us-east-1' })
+    const logger = new ElasticLogger({
+      node: 'http://localhost:9200',
+      username: 'admin',
+      password: 'admin',
+      index: 'test-logs',
+      service: 'test-service',
+      environment: 'test',
+      region: 'us-east-1',
+      runtimeMetadata: true,
+    })
+    const index = (logger as unknown as { client: { index: jest.Mock } }).client
+      .index
+
+    // Detection started when the logger was created
+    await new Promise((resolve) => setImmediate(resolve))
+    await logger.log('info', 'hello')
+
+    expect(index).toHaveBeenCalledWith({
+      index: 'test-logs',
+      body: expect.objectContaining({
+        message: 'hello',
+        runtime: { platform: 'ecs', region: 'us-east-1' },
+      }),
+    })
+  })
+
+  it('should not hold the first ElasticLogger document while detection runs', async () => {
+    jest
+      .spyOn(runtimeModule, 'detectRuntime')
+      .mockReturnValue(new Promise<never>(() => undefined))
+    const logger = new ElasticLogger({
+      node: 'http://localhost:9200',
+      username: 'admin',
+      password: 'admin',
+      index: 'test-logs',
+      service: 'test-service',
+      environment: 'test',
+      region: 'us-east-1',
+      runtimeMetadata: true,
+    })
+    const index = (logger as unknown as { client: { index: jest.Mock } }).client
+      .index
+
+    await logger.log('info', 'hello')
+
+    expect(index.mock.calls[0][0].body).not.toHaveProperty('runtime')
+  })
+
+  it('should ignore a failed detection in the pino mixin', async () => {
+    jest
+      .spyOn(runtimeModule, 'detectRuntime')
+      .mockRejectedValue(new Error('detection failed'))
+    const unhandled = jest.fn()
+    process.on('unhandledRejection', unhandled)
+
+    try {
+      createPinoLogger({
+        serviceName: 'test-service',
+        environment: 'test',
+        logLevel: 'info',
+        runtimeMetadata: true,
+      })
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(unhandled).not.toHaveBeenCalled()
+    } finally {
+      process.off('unhandledRejection', unhandled)
+    }
+  })
+})
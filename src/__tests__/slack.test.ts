@@ -6,6 +6,7 @@ import {
   createActionBlock,
   createSlackAttachment,
   SlackNotifier,
+  SlackApiError,
 } from '../slack'
 import type {
   SlackConfig,
@@ -93,6 +94,60 @@ describe('Slack Module', () => {
         })
       ).rejects.toThrow('Message must contain text, blocks, or attachments')
     })
+
+    it('should not retry permanent Slack errors', async () => {
+      ;(fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ ok: false, error: 'invalid_auth' }),
+      })
+
+      const error = await sendSlackMessage(
+        { channel: '#test', text: 'Test message' },
+        {
+          config: mockSlackConfig,
+          checkChannelMembership: false,
+          retryConfig: { maxAttempts: 3, delayMs: 1 },
+        }
+      ).catch((e) => e)
+
+      expect(error).toBeInstanceOf(SlackApiError)
+      expect(error.code).toBe('invalid_auth')
+      expect(fetch).toHaveBeenCalledTimes(1)
+      ;(fetch as jest.Mock).mockReset()
+    })
+
+    it('should retry rate limited requests after Retry-After', async () => {
+      const onRetry = jest.fn()
+      ;(fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers({ 'retry-after': '0' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ok: true, channel: '#test' }),
+        })
+
+      const result = await sendSlackMessage(
+        { channel: '#test', text: 'Test message' },
+        {
+          config: mockSlackConfig,
+          checkChannelMembership: false,
+          retryConfig: { maxAttempts: 3, delayMs: 1, onRetry },
+        }
+      )
+
+      expect(result.ok).toBe(true)
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempt: 1,
+          error: expect.objectContaining({ status: 429 }),
+        })
+      )
+    })
   })
 
   describe('sendSlackWebhook', () => {
@@ -0,0 +1,156 @@
+import {
+  fromTemporaryCredentials,
+  fromTokenFile,
+} from '@aws-sdk/credential-providers'
+import { defaultProvider } from '@aws-sdk/credential-provider-node'
+import {
+  AwsCredentialOptions,
+  AwsCredentials,
+  AwsCredentialsProvider,
+} from './types'
+
+const DEFAULT_SESSION_NAME = 'star-node-stack-helper'
+const DEFAULT_REFRESH_BEFORE_EXPIRY_MS = 5 * 60 * 1000
+
+/**
+ * Check whether the options ask for a role to be assumed.
+ *
+ * @param {AwsCredentialOptions} options - The credential options.
+ * @returns {boolean} True if a role ARN or web identity token file is set.
+ */
+export function usesAssumedRole(options: AwsCredentialOptions): boolean {
+  return !!(options.roleArn || options.webIdentityTokenFile)
+}
+
+/**
+ * Cache credentials from a provider and refresh them before they expire.
+ *
+ * Credentials are fetched again once they are within `refreshBeforeExpiryMs`
+ * of their expiration, and concurrent callers share a single refresh. The
+ * returned credentials report that refresh time as their `expiration`, so
+ * callers that cache them (like the OpenSearch SigV4 signer) ask again in
+ * time instead of signing with credentials that are about to expire.
+ *
+ * @param {AwsCredentialsProvider} provider - The provider to cache.
+ * @param {number} [refreshBeforeExpiryMs] - How long before expiry to refresh. Defaults to 5 minutes.
+ * @returns {AwsCredentialsProvider} The caching provider.
+ *
+ * @example
+ * ```typescript
+ * const getCredentials = memoizeCredentials(fromTokenFile(), 60 * 1000)
+ * ```
+ */
+export function memoizeCredentials(
+  provider: AwsCredentialsProvider,
+  refreshBeforeExpiryMs = DEFAULT_REFRESH_BEFORE_EXPIRY_MS
+): AwsCredentialsProvider {
+  let current: AwsCredentials | undefined
+  let pending: Promise<AwsCredentials> | undefined
+
+  return () => {
+    if (
+      current &&
+      (!current.expiration || current.expiration.getTime() > Date.now())
+    ) {
+      return Promise.resolve(current)
+    }
+
+    if (!pending) {
+      pending = provider()
+        .then((credentials) => {
+          current = credentials.expiration
+            ? {
+                ...credentials,
+                expiration: new Date(
+                  credentials.expiration.getTime() - refreshBeforeExpiryMs
+                ),
+              }
+            : credentials
+          return current
+        })
+        .finally(() => {
+          pending = undefined
+        })
+    }
+
+    return pending
+  }
+}
+
+/**
+ * Create a credential provider for AWS SDK clients and the SigV4 signer.
+ *
+ * In order of precedence:
+ * - `webIdentityTokenFile`: exchanges the OIDC token in that file for the
+ *   role in `roleArn` (EKS IRSA). The role and file may also come from
+ *   `AWS_ROLE_ARN` and `AWS_WEB_IDENTITY_TOKEN_FILE`.
+ * - `roleArn`: assumes the role with STS, using the static keys or the
+ *   default credential chain as the source credentials.
+ * - `accessKeyId` and `secretAccessKey`: static credentials.
+ * - Otherwise the default Node.js credential chain.
+ *
+ * Temporary credentials are cached and refreshed before they expire.
+ *
+ * @param {AwsCredentialOptions} options - The credential options.
+ * @param {string} region - The region of the STS endpoint used to assume roles.
+ * @returns {AwsCredentialsProvider} A credential provider.
+ *
+ * @example
+ * ```typescript
+ * const credentials = createCredentialsProvider(
+ *   {
+ *     roleArn: 'arn:aws:iam::123456789012:role/shared-secrets-reader',
+ *     externalId: 'video-microservice',
+ *     durationSeconds: 900,
+ *   },
+ *   'us-east-2'
+ * )
+ *
+ * const client = new SecretsManagerClient({ region: 'us-east-2', credentials })
+ * ```
+ */
+export function createCredentialsProvider(
+  options: AwsCredentialOptions,
+  region: string
+): AwsCredentialsProvider {
+  const staticCredentials =
+    options.accessKeyId && options.secretAccessKey
+      ? {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey,
+        }
+      : undefined
+
+  let provider: AwsCredentialsProvider
+
+  if (options.webIdentityTokenFile) {
+    provider = fromTokenFile({
+      webIdentityTokenFile: options.webIdentityTokenFile,
+      roleSessionName: options.roleSessionName || DEFAULT_SESSION_NAME,
+      ...(options.roleArn && { roleArn: options.roleArn }),
+      ...(options.durationSeconds && {
+        durationSeconds: options.durationSeconds,
+      }),
+      clientConfig: { region },
+    })
+  } else if (options.roleArn) {
+    provider = fromTemporaryCredentials({
+      params: {
+        RoleArn: options.roleArn,
+        RoleSessionName: options.roleSessionName || DEFAULT_SESSION_NAME,
+        ...(options.externalId && { ExternalId: options.externalId }),
+        ...(options.durationSeconds && {
+          DurationSeconds: options.durationSeconds,
+        }),
+      },
+      ...(staticCredentials && { masterCredentials: staticCredentials }),
+      clientConfig: { region },
+    })
+  } else if (staticCredentials) {
+    return async () => staticCredentials
+  } else {
+    provider = defaultProvider()
+  }
+
+  return memoizeCredentials(provider, options.refreshBeforeExpiryMs)
+}
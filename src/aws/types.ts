@@ -0,0 +1,19 @@
+export interface AwsCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+  expiration?: Date
+}
+
+export type AwsCredentialsProvider = () => Promise<AwsCredentials>
+
+export interface AwsCredentialOptions {
+  accessKeyId?: string
+  secretAccessKey?: string
+  roleArn?: string
+  roleSessionName?: string
+  externalId?: string
+  durationSeconds?: number
+  webIdentityTokenFile?: string
+  refreshBeforeExpiryMs?: number
+}
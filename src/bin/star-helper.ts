@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { runCli } from '../cli'
+
+// Library logs go to stderr so stdout only carries command output
+console.log = console.error
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
@@ -0,0 +1,380 @@
+import { spawn } from 'child_process'
+import { readFile, rename, rm, writeFile } from 'fs/promises'
+import { basename, extname } from 'path'
+import { parseArgs } from 'util'
+import { parse as parseYaml } from 'yaml'
+import { loadSecretsDetailed } from '../secrets'
+import { SecretValidationError } from '../secrets/errors'
+import { maskValue } from '../secrets/inventory'
+import { createDotenvProvider, createFileProvider } from '../secrets/providers'
+import { validateSecretValues } from '../secrets/utils'
+import { diffSecretValues } from '../secrets/writer'
+import {
+  LoadSecretsOptions,
+  ProviderChainConfig,
+  SecretConfig,
+  SecretKeySchema,
+} from '../secrets/types'
+import { CliIo, CliSourceOptions, SecretsSchemaFile } from './types'
+
+const FILE_PREFIX = 'file:'
+
+const USAGE = `Usage: star-helper secrets <command> [options]
+
+Commands:
+  pull       Write the secrets to a .env file (masked unless --unmasked)
+  diff       Compare two secrets, or a secret and a local file
+  validate   Check the secrets against a schema file
+  exec       Run a command with the secrets in its environment
+
+Options:
+  -s, --secret <name>     Secret name or ARN, or file:<path>. Repeat to merge several
+  -r, --region <region>   AWS region (defaults to AWS_REGION)
+      --role-arn <arn>    Role to assume before reading the secrets
+  -o, --out <path>        pull: file to write (default .env)
+      --unmasked          pull: write the real values
+  -a, --against <name>    diff: secret name or file:<path> to compare with
+      --schema <path>     validate: JSON or YAML file with requiredKeys and schema
+
+Examples:
+  star-helper secrets pull -s dev/video/env -r us-east-2 --unmasked
+  star-helper secrets diff -s staging/video/env -a prod/video/env
+  star-helper secrets validate -s prod/video/env --schema secrets.schema.json
+  star-helper secrets exec -s dev/video/env -- node dist/main.js
+`
+
+const defaultIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}
+
+/**
+ * Build the loadSecrets configuration for a list of secrets or a local file.
+ *
+ * @param {CliSourceOptions} options - The secrets, region and role.
+ * @returns {SecretConfig | ProviderChainConfig} The configuration to load.
+ * @throws {Error} If no secret is given, files and secrets are mixed, or the region is missing.
+ */
+function toLoadConfig(
+  options: CliSourceOptions
+): SecretConfig | ProviderChainConfig {
+  const files = options.secrets.filter((secret) =>
+    secret.startsWith(FILE_PREFIX)
+  )
+
+  if (options.secrets.length === 0) {
+    throw new Error('At least one --secret is required')
+  }
+
+  if (files.length > 0) {
+    if (options.secrets.length > 1) {
+      throw new Error('A file: source cannot be combined with other sources')
+    }
+
+    const path = (files[0] as string).slice(FILE_PREFIX.length)
+    const isStructured = ['.json', '.yaml', '.yml'].includes(
+      extname(path).toLowerCase()
+    )
+    return {
+      providers: [
+        !isStructured && basename(path).includes('.env')
+          ? createDotenvProvider(path)
+          : createFileProvider(path),
+      ],
+    }
+  }
+
+  const region = options.region || process.env['AWS_REGION']
+  if (!region) {
+    throw new Error('--region is required when AWS_REGION is not set')
+  }
+
+  return {
+    region,
+    secretName:
+      options.secrets.length === 1
+        ? (options.secrets[0] as string)
+        : options.secrets,
+    ...(options.roleArn && { roleArn: options.roleArn }),
+  }
+}
+
+/**
+ * Load the secrets for a command, failing on any error.
+ *
+ * @param {CliSourceOptions} options - The secrets, region and role.
+ * @param {LoadSecretsOptions} [loadOptions] - Extra load options, such as a schema.
+ * @returns {Promise<Record<string, string>>} The loaded values.
+ */
+async function load(
+  options: CliSourceOptions,
+  loadOptions: LoadSecretsOptions = {}
+): Promise<Record<string, string>> {
+  const result = await loadSecretsDetailed(toLoadConfig(options), {
+    failOnError: true,
+    ...loadOptions,
+  })
+  return result.secrets
+}
+
+/**
+ * Format values as a `.env` file, quoting every value. Backslashes and line
+ * breaks are escaped so `parseDotenv` reads the same values back.
+ *
+ * @param {Record<string, string>} values - The values to write.
+ * @returns {string} The file contents.
+ */
+function formatDotenv(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(
+      ([key, value]) =>
+        `${key}="${value
+          .replace(/\\/g, '\\\\')
+          .replace(/\r/g, '\\r')
+          .replace(/\n/g, '\\n')}"`
+    )
+    .join('\n')
+    .concat('\n')
+}
+
+/**
+ * Read a schema file and convert its patterns to regular expressions.
+ *
+ * @param {string} path - The JSON or YAML schema file.
+ * @returns {Promise<LoadSecretsOptions>} The required keys and schema to validate with.
+ */
+async function readSchemaFile(path: string): Promise<LoadSecretsOptions> {
+  const content = await readFile(path, 'utf8')
+  const parsed = (
+    extname(path).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content)
+  ) as SecretsSchemaFile
+
+  const schema: Record<string, SecretKeySchema> = {}
+  for (const [key, rule] of Object.entries(parsed.schema ?? {})) {
+    schema[key] = {
+      ...(rule.required !== undefined && { required: rule.required }),
+      ...(rule.allowEmpty !== undefined && { allowEmpty: rule.allowEmpty }),
+      ...(rule.pattern && { pattern: new RegExp(rule.pattern) }),
+    }
+  }
+
+  return {
+    validateSecrets: true,
+    ...(parsed.requiredKeys && { requiredKeys: parsed.requiredKeys }),
+    ...(parsed.schema && { schema }),
+  }
+}
+
+/**
+ * Run a command with the current environment and wait for it to exit.
+ * SIGINT and SIGTERM are forwarded to the command.
+ *
+ * @param {string[]} command - The command and its arguments.
+ * @returns {Promise<number>} The exit code of the command.
+ */
+function runCommand(command: string[]): Promise<number> {
+  const [file, ...args] = command as [string, ...string[]]
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, { stdio: 'inherit', env: process.env })
+    const forward = (signal: NodeJS.Signals) => child.kill(signal)
+
+    process.on('SIGINT', forward)
+    process.on('SIGTERM', forward)
+
+    const cleanup = () => {
+      process.off('SIGINT', forward)
+      process.off('SIGTERM', forward)
+    }
+
+    child.on('error', (error) => {
+      cleanup()
+      reject(error)
+    })
+    child.on('exit', (code, signal) => {
+      cleanup()
+      resolve(code ?? (signal ? 1 : 0))
+    })
+  })
+}
+
+/**
+ * Parse the command line options, printing the usage on invalid options.
+ *
+ * @param {string[]} args - The arguments before `--`.
+ * @param {CliIo} io - Where to write errors.
+ * @returns The parsed options and positionals, or undefined if they are invalid.
+ */
+function parseCliArgs(args: string[], io: CliIo) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        secret: { type: 'string', short: 's', multiple: true },
+        region: { type: 'string', short: 'r' },
+        'role-arn': { type: 'string' },
+        out: { type: 'string', short: 'o' },
+        unmasked: { type: 'boolean' },
+        against: { type: 'string', short: 'a' },
+        schema: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`)
+    return undefined
+  }
+}
+
+/**
+ * Run the `star-helper` command line.
+ *
+ * Returns the exit code instead of exiting, so it can be called from tests
+ * and other scripts: 0 on success, 1 when a command fails or a diff or
+ * validation finds problems, and 2 for usage errors.
+ *
+ * @param {string[]} argv - The arguments, without the node executable and script.
+ * @param {CliIo} [io] - Where to write output. Defaults to stdout and stderr.
+ * @returns {Promise<number>} The exit code.
+ *
+ * @example
+ * ```typescript
+ * const code = await runCli(['secrets', 'pull', '-s', 'dev/video/env', '-r', 'us-east-2'])
+ * ```
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIo = defaultIo
+): Promise<number> {
+  const separator = argv.indexOf('--')
+  const command = separator >= 0 ? argv.slice(separator + 1) : []
+  const args = separator >= 0 ? argv.slice(0, separator) : argv
+
+  const parsed = parseCliArgs(args, io)
+  if (!parsed) {
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  const [group, subcommand] = positionals
+
+  if (values.help || (!group && !subcommand)) {
+    io.stdout(USAGE)
+    return 0
+  }
+
+  if (group !== 'secrets' || !subcommand) {
+    io.stderr(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`)
+    return 2
+  }
+
+  const source: CliSourceOptions = {
+    secrets: values.secret ?? [],
+    ...(values.region && { region: values.region }),
+    ...(values['role-arn'] && { roleArn: values['role-arn'] }),
+  }
+
+  try {
+    switch (subcommand) {
+      case 'pull': {
+        const secrets = await load(source)
+        const out = values.out || '.env'
+        const written = values.unmasked
+          ? secrets
+          : Object.fromEntries(
+              Object.entries(secrets).map(([key, value]) => [
+                key,
+                maskValue(value),
+              ])
+            )
+
+        if (values.unmasked) {
+          // writeFile only applies the mode to new files, so an existing
+          // world-readable .env is replaced by a private one
+          const temporary = `${out}.${process.pid}.tmp`
+          try {
+            await writeFile(temporary, formatDotenv(written), { mode: 0o600 })
+            await rename(temporary, out)
+          } catch (error) {
+            await rm(temporary, { force: true })
+            throw error
+          }
+        } else {
+          await writeFile(out, formatDotenv(written), { mode: 0o644 })
+        }
+        io.stdout(
+          `Wrote ${Object.keys(written).length} keys to ${out}${values.unmasked ? '' : ' (masked)'}\n`
+        )
+        return 0
+      }
+
+      case 'diff': {
+        if (!values.against) {
+          throw new Error('diff requires --against')
+        }
+
+        const current = await load(source)
+        const other = await load({ ...source, secrets: [values.against] })
+        const diff = diffSecretValues(current, other)
+        const lines = [
+          ...diff.added.map((change) => `+ ${change.key}=${change.value}`),
+          ...diff.removed.map((change) => `- ${change.key}=${change.previous}`),
+          ...diff.changed.map(
+            (change) => `~ ${change.key}=${change.previous} -> ${change.value}`
+          ),
+        ]
+
+        io.stdout(
+          lines.length > 0 ? `${lines.join('\n')}\n` : 'No differences\n'
+        )
+        return lines.length > 0 ? 1 : 0
+      }
+
+      case 'validate': {
+        if (!values.schema) {
+          throw new Error('validate requires --schema')
+        }
+
+        const schema = await readSchemaFile(values.schema)
+        const secrets = await load(source)
+
+        // Only the loaded values count: a key set in this shell is not set
+        // where the service runs
+        validateSecretValues(secrets, schema, Object.keys(secrets))
+        io.stdout(`All ${Object.keys(secrets).length} keys are valid\n`)
+        return 0
+      }
+
+      case 'exec': {
+        if (command.length === 0) {
+          throw new Error('exec requires a command after --')
+        }
+
+        await load(source)
+        return await runCommand(command)
+      }
+
+      default:
+        io.stderr(`Unknown command: secrets ${subcommand}\n\n${USAGE}`)
+        return 2
+    }
+  } catch (error) {
+    if (error instanceof SecretValidationError) {
+      const problems = [
+        ...error.missingKeys.map((key) => `missing: ${key}`),
+        ...error.emptyKeys.map((key) => `empty: ${key}`),
+        ...error.invalidKeys.map((key) => `invalid: ${key}`),
+      ]
+      io.stderr(`${problems.join('\n')}\n`)
+      return 1
+    }
+
+    io.stderr(
+      `Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`
+    )
+    return 1
+  }
+}
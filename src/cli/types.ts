@@ -0,0 +1,18 @@
+export interface CliIo {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export interface CliSourceOptions {
+  secrets: string[]
+  region?: string
+  roleArn?: string
+}
+
+export interface SecretsSchemaFile {
+  requiredKeys?: string[]
+  schema?: Record<
+    string,
+    { required?: boolean; allowEmpty?: boolean; pattern?: string }
+  >
+}
@@ -0,0 +1,27 @@
+import { ConfigIssue } from './types'
+
+/**
+ * Error thrown when configuration values are missing or cannot be coerced.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await defineConfig(schema)
+ * } catch (error) {
+ *   if (error instanceof ConfigValidationError) {
+ *     error.issues.forEach((issue) => console.error(issue.env, issue.message))
+ *   }
+ * }
+ * ```
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[]
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration: ${issues.map((issue) => `${issue.env} ${issue.message}`).join('; ')}`
+    )
+    this.name = 'ConfigValidationError'
+    this.issues = issues
+  }
+}
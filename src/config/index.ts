@@ -0,0 +1,212 @@
+import { inspect } from 'util'
+import { loadSecrets } from '../secrets'
+import {
+  ConfigField,
+  ConfigIssue,
+  ConfigSchema,
+  DefineConfigOptions,
+  InferConfig,
+} from './types'
+import { ConfigValidationError } from './errors'
+
+export { ConfigValidationError } from './errors'
+
+const REDACTED = '[REDACTED]'
+const TRUE_VALUES = ['true', '1', 'yes', 'on']
+const FALSE_VALUES = ['false', '0', 'no', 'off']
+
+/**
+ * Coerce a raw string into the type declared by the field.
+ *
+ * @param {ConfigField} field - The field definition.
+ * @param {string} raw - The raw value from the environment or secrets.
+ * @returns {unknown} The coerced value.
+ * @throws {Error} If the value cannot be coerced.
+ */
+function coerceValue(field: ConfigField, raw: string): unknown {
+  switch (field.type) {
+    case 'string':
+      return raw
+
+    case 'number': {
+      const value = Number(raw.trim())
+      if (Number.isNaN(value)) {
+        throw new Error(`must be a number, received "${raw}"`)
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        throw new Error(`must be an integer, received "${raw}"`)
+      }
+      if (field.min !== undefined && value < field.min) {
+        throw new Error(`must be at least ${field.min}`)
+      }
+      if (field.max !== undefined && value > field.max) {
+        throw new Error(`must be at most ${field.max}`)
+      }
+      return value
+    }
+
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase()
+      if (TRUE_VALUES.includes(normalized)) return true
+      if (FALSE_VALUES.includes(normalized)) return false
+      throw new Error(`must be a boolean, received "${raw}"`)
+    }
+
+    case 'enum':
+      if (!field.values.includes(raw)) {
+        throw new Error(`must be one of ${field.values.join(', ')}`)
+      }
+      return raw
+
+    case 'url': {
+      let url: URL
+      try {
+        url = new URL(raw)
+      } catch {
+        throw new Error('must be a valid URL')
+      }
+      if (field.protocols && !field.protocols.includes(url.protocol)) {
+        throw new Error(
+          `must use one of the protocols ${field.protocols.join(', ')}`
+        )
+      }
+      return url
+    }
+
+    case 'json':
+      try {
+        return JSON.parse(raw)
+      } catch {
+        throw new Error('must be valid JSON')
+      }
+  }
+}
+
+/**
+ * Build a frozen configuration object from a schema and a source of raw values.
+ * Sensitive fields are masked when the object is serialized or inspected.
+ *
+ * @param {S} schema - The configuration schema.
+ * @param {Record<string, string | undefined>} source - The raw values, keyed by env name.
+ * @param {Set<string>} [secretKeys] - Env names whose values came from a secret store.
+ * @returns {InferConfig<S>} The typed, frozen configuration object.
+ * @throws {ConfigValidationError} If any value is missing or invalid.
+ *
+ * @example
+ * ```typescript
+ * const config = parseConfig(
+ *   { PORT: { type: 'number', default: 3000 } },
+ *   process.env
+ * )
+ * // Output: { PORT: 3000 }
+ * ```
+ */
+export function parseConfig<const S extends ConfigSchema>(
+  schema: S,
+  source: Record<string, string | undefined>,
+  secretKeys: Set<string> = new Set()
+): InferConfig<S> {
+  const issues: ConfigIssue[] = []
+  const values: Record<string, unknown> = {}
+  const sensitive = new Set<string>()
+
+  for (const [key, field] of Object.entries(schema)) {
+    const envName = field.env || key
+    const raw = source[envName]
+
+    if (field.secret || secretKeys.has(envName)) {
+      sensitive.add(key)
+    }
+
+    // Empty strings are treated as unset, like most shells and .env loaders
+    if (raw === undefined || raw === '') {
+      if (field.default !== undefined) {
+        values[key] =
+          field.type === 'url'
+            ? coerceValue(field, field.default)
+            : field.default
+      } else if (!field.optional) {
+        issues.push({ key, env: envName, message: 'is required' })
+      }
+      continue
+    }
+
+    try {
+      values[key] = coerceValue(field, raw)
+    } catch (error) {
+      issues.push({
+        key,
+        env: envName,
+        message: error instanceof Error ? error.message : 'is invalid',
+      })
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues)
+  }
+
+  const masked = () =>
+    Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        sensitive.has(key) ? REDACTED : value,
+      ])
+    )
+
+  Object.defineProperties(values, {
+    toJSON: { value: masked, enumerable: false },
+    [inspect.custom]: { value: masked, enumerable: false },
+  })
+
+  return Object.freeze(values) as InferConfig<S>
+}
+
+/**
+ * Define and load a typed configuration object for a service.
+ *
+ * Values are read from the environment and, when `secrets` is given, from
+ * AWS Secrets Manager through `loadSecrets`. Each field is coerced to its
+ * declared type, defaults are applied and every problem is reported in a
+ * single ConfigValidationError. Fields marked `secret`, and values that came
+ * from Secrets Manager, are masked when the config is logged or serialized.
+ *
+ * @param {S} schema - The configuration schema.
+ * @param {DefineConfigOptions} [options] - Where to read values from.
+ * @returns {Promise<InferConfig<S>>} A promise that resolves to the typed, frozen configuration object.
+ * @throws {ConfigValidationError} If any value is missing or invalid.
+ *
+ * @example
+ * ```typescript
+ * const config = await defineConfig(
+ *   {
+ *     PORT: { type: 'number', default: 3000 },
+ *     LOG_LEVEL: { type: 'enum', values: ['debug', 'info', 'warn'], default: 'info' },
+ *     DATABASE_URL: { type: 'url', secret: true },
+ *     FEATURE_FLAGS: { type: 'json', optional: true },
+ *   },
+ *   { secrets: { region: 'us-east-2', secretName: 'prod/video-microservice/env' } }
+ * )
+ *
+ * config.PORT // number
+ * config.LOG_LEVEL // 'debug' | 'info' | 'warn'
+ * ```
+ */
+export async function defineConfig<const S extends ConfigSchema>(
+  schema: S,
+  options: DefineConfigOptions = {}
+): Promise<InferConfig<S>> {
+  const env = options.env || process.env
+  let secrets: Record<string, string> = {}
+
+  if (options.secrets) {
+    secrets = await loadSecrets(options.secrets, options.loadOptions)
+  }
+
+  const source: Record<string, string | undefined> = { ...env }
+  for (const [key, value] of Object.entries(secrets)) {
+    source[key] = value === undefined || value === null ? value : String(value)
+  }
+
+  return parseConfig(schema, source, new Set(Object.keys(secrets)))
+}
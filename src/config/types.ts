@@ -0,0 +1,85 @@
+import type { LoadSecretsOptions, SecretConfig } from '../secrets/types'
+
+interface ConfigFieldBase<T> {
+  env?: string
+  default?: T
+  optional?: boolean
+  secret?: boolean
+  description?: string
+}
+
+export interface ConfigStringField extends ConfigFieldBase<string> {
+  type: 'string'
+}
+
+export interface ConfigNumberField extends ConfigFieldBase<number> {
+  type: 'number'
+  integer?: boolean
+  min?: number
+  max?: number
+}
+
+export interface ConfigBooleanField extends ConfigFieldBase<boolean> {
+  type: 'boolean'
+}
+
+export interface ConfigEnumField<V extends string = string>
+  extends ConfigFieldBase<V> {
+  type: 'enum'
+  values: readonly V[]
+}
+
+export interface ConfigUrlField extends ConfigFieldBase<string> {
+  type: 'url'
+  protocols?: string[]
+}
+
+export interface ConfigJsonField<T = unknown> extends ConfigFieldBase<T> {
+  type: 'json'
+}
+
+export type ConfigField =
+  | ConfigStringField
+  | ConfigNumberField
+  | ConfigBooleanField
+  | ConfigEnumField
+  | ConfigUrlField
+  | ConfigJsonField
+
+export type ConfigSchema = Record<string, ConfigField>
+
+type ConfigFieldValue<F> = F extends { type: 'string' }
+  ? string
+  : F extends { type: 'number' }
+    ? number
+    : F extends { type: 'boolean' }
+      ? boolean
+      : F extends { type: 'enum'; values: readonly (infer V)[] }
+        ? V
+        : F extends { type: 'url' }
+          ? URL
+          : F extends { type: 'json'; default: infer T }
+            ? T
+            : unknown
+
+type InferConfigField<F> = F extends { default: unknown }
+  ? ConfigFieldValue<F>
+  : F extends { optional: true }
+    ? ConfigFieldValue<F> | undefined
+    : ConfigFieldValue<F>
+
+export type InferConfig<S extends ConfigSchema> = {
+  readonly [K in keyof S]: InferConfigField<S[K]>
+}
+
+export interface DefineConfigOptions {
+  secrets?: SecretConfig
+  loadOptions?: LoadSecretsOptions
+  env?: Record<string, string | undefined>
+}
+
+export interface ConfigIssue {
+  key: string
+  env: string
+  message: string
+}
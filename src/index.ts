@@ -1,12 +1,63 @@
 // Functions
 export {
   loadSecrets,
+  loadSecretsDetailed,
   testSavedSecrets,
+  getSecretInventory,
   isRunningOnAWS,
   getAWSRegion,
+  SecretsCache,
+  SecretValidationError,
+  SecretConflictError,
+  SecretLoadError,
+  SecretInterpolationError,
+  SecretDeletionError,
+  interpolateValues,
+  createOrUpdateSecret,
+  syncSecretsFromFile,
+  loadParameters,
+  watchSecrets,
+  SecretWatcher,
+  createProviderChain,
+  createSecretsManagerProvider,
+  createDotenvProvider,
+  createFileProvider,
+  createEnvProvider,
+  createMemoryProvider,
 } from './secrets'
 
+// AWS Credentials
+export { createCredentialsProvider } from './aws'
+
+// Secret Redaction
+export {
+  redactSecrets,
+  registerSecretValue,
+  registerSecretValues,
+  clearSecretValues,
+} from './redaction'
+
+// Runtime Detection
+export { detectRuntime } from './runtime'
+
+// Retries and Circuit Breaking
+export {
+  retryWithBackoff,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  CircuitBreaker,
+  HttpError,
+  CircuitOpenError,
+} from './resilience'
+
+// Typed Configuration
+export { defineConfig, parseConfig, ConfigValidationError } from './config'
+
 export { ElasticLogger } from './logger'
+export { BulkBuffer } from './logger/bulk-buffer'
+export { DiskSpool } from './logger/spool'
+export { closeOnShutdown } from './logger/shutdown'
 
 // Middlewares
 export {
@@ -32,6 +83,7 @@ export {
   createActionBlock,
   createSlackAttachment,
   SlackNotifier,
+  SlackApiError,
 } from './slack'
 
 // NestJS Integration
@@ -53,9 +105,98 @@ export type {
   SecretConfig,
   RetryConfig,
   LoadSecretsOptions,
+  SecretsCacheOptions,
+  SecretKeySchema,
+  ParameterConfig,
+  AwsClientOptions,
+  SecretProvider,
+  ProviderChainConfig,
+  EnvProviderOptions,
+  MergePolicy,
+  LoadSecretsResult,
+  SecretProvenance,
+  SecretConflict,
+  SecretLoadFailure,
+  SecretReference,
+  SecretChangeDiff,
+  SecretChangeListener,
+  SecretVersionChange,
+  WatchSecretsOptions,
+  InterpolationOptions,
+  UnresolvedReference,
+  SecretWriteOptions,
+  SecretWriteResult,
+  SecretWriteDiff,
+  SecretKeyChange,
+  SecretInventory,
+  SecretInventoryEntry,
+  SecretInventoryOptions,
 } from './secrets/types'
 
-export type { LoggerConfig, LogLevel, LogTransaction } from './logger/types'
+export type {
+  AwsCredentialOptions,
+  AwsCredentials,
+  AwsCredentialsProvider,
+} from './aws/types'
+
+export type { RedactionOptions } from './redaction/types'
+
+export type {
+  RuntimeInfo,
+  RuntimePlatform,
+  DetectRuntimeOptions,
+} from './runtime/types'
+
+export type {
+  RetryEvent,
+  CircuitState,
+  CircuitStateListener,
+  CircuitBreakerOptions,
+  CircuitBreakerStats,
+} from './resilience/types'
+
+export type {
+  ConfigSchema,
+  ConfigField,
+  ConfigStringField,
+  ConfigNumberField,
+  ConfigBooleanField,
+  ConfigEnumField,
+  ConfigUrlField,
+  ConfigJsonField,
+  ConfigIssue,
+  DefineConfigOptions,
+  InferConfig,
+} from './config/types'
+
+export type {
+  LoggerConfig,
+  LogLevel,
+  LogTransaction,
+  IndexStrategy,
+  IndexInfrastructureOptions,
+  IndexInfrastructureResult,
+  InfrastructureAction,
+  InfrastructureChange,
+  IndexMigrationOptions,
+  IndexMigrationResult,
+  MigrationTarget,
+  ReindexScript,
+  BufferConfig,
+  BufferDropPolicy,
+  BufferDropReason,
+  BufferStats,
+  BufferedDocument,
+  CloseOptions,
+  ShutdownOptions,
+  SpoolConfig,
+  SpoolEntry,
+  SpoolStats,
+  DeadLetterConfig,
+  DeadLetterEntry,
+  DeadLetterReplayResult,
+  ReplayDeadLettersOptions,
+} from './logger/types'
 
 export type { PinoLoggerConfig } from './logger-pino/types'
 
@@ -64,6 +205,7 @@ export type {
   SlackMessage,
   SlackResponse,
   SlackNotificationOptions,
+  SlackWebhookOptions,
   SlackWebhookConfig,
   SlackWebhookMessage,
   SlackBlock,
@@ -1,9 +1,16 @@
 import pino from 'pino'
 import pinoHttp from 'pino-http'
 import { PinoLoggerConfig } from './types'
+import { detectRuntime } from '../runtime'
+import { RuntimeInfo } from '../runtime/types'
+import { redactSecrets } from '../redaction'
 
 const baseConfig = {
   timestamp: pino.stdTimeFunctions.isoTime,
+  // Mask loaded secret values in every serialized line
+  hooks: {
+    streamWrite: (line: string) => redactSecrets(line),
+  },
   formatters: {
     level: (label: string) => {
       return { level: label }
@@ -48,12 +55,25 @@ const prodConfig = {
   },
 }
 
+// Adds the runtime metadata to every log line once detection has finished
+const runtimeMixin = () => {
+  let runtime: RuntimeInfo | undefined
+  // Lines are logged without the runtime if detection fails
+  detectRuntime()
+    .then((info) => (runtime = info))
+    .catch(() => undefined)
+  return () => (runtime ? { runtime } : {})
+}
+
 export const createPinoLogger = (config: PinoLoggerConfig) => {
   const loggerConfig =
     config.environment === 'production'
       ? { ...prodConfig, name: config.serviceName, level: config.logLevel }
       : { ...devConfig, name: config.serviceName, level: config.logLevel }
-  return pino(loggerConfig as pino.LoggerOptions)
+  return pino({
+    ...loggerConfig,
+    ...(config.runtimeMetadata && { mixin: runtimeMixin() }),
+  } as pino.LoggerOptions)
 }
 
 const silentRoutes = [
@@ -4,6 +4,7 @@ export interface PinoLoggerConfig {
   logLevel?: 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal'
   customSilentRoutes?: string[]
   customRedactPaths?: string[]
+  runtimeMetadata?: boolean
   customFormatters?: {
     level?: (label: string) => unknown
     log?: (object: unknown) => unknown
@@ -0,0 +1,321 @@
+import {
+  BufferConfig,
+  BufferDropPolicy,
+  BufferDropReason,
+  BufferStats,
+  BufferedDocument,
+  BulkItemFailure,
+} from './types'
+import { computeBackoffDelay, delay } from '../resilience'
+import { RetryConfig } from '../resilience/types'
+
+const DEFAULT_BUFFER_CONFIG = {
+  maxBatchSize: 500,
+  maxBatchBytes: 5 * 1024 * 1024,
+  flushIntervalMs: 1000,
+  maxQueueSize: 10000,
+  dropPolicy: 'drop-oldest' as BufferDropPolicy,
+}
+
+/**
+ * Sends a batch of documents in one `_bulk` request and returns the items
+ * the cluster did not accept.
+ */
+export type BulkSender = (
+  batch: BufferedDocument[]
+) => Promise<BulkItemFailure[]>
+
+/**
+ * Collects documents in a bounded in-memory queue and sends them in batches.
+ *
+ * A batch is sent when the queue holds `maxBatchSize` documents or
+ * `maxBatchBytes` of JSON, and at the latest `flushIntervalMs` after the
+ * first document was queued. Items rejected with a retryable status (429,
+ * 5xx) are queued again in front of newer documents until `maxAttempts` of
+ * the retry configuration is reached.
+ *
+ * When the queue is full, `dropPolicy` decides what happens to a new
+ * document: `drop-oldest` (default) discards the oldest queued document,
+ * `drop-newest` discards the new one, and `block` makes the caller wait until
+ * a batch has been sent. Dropped documents are passed to `onDrop`.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new BulkBuffer(sendBatch, { maxBatchSize: 200 }, retryConfig)
+ *
+ * await buffer.add('app-logs', { message: 'User logged in' })
+ * await buffer.flush()
+ * buffer.stats // { queued: 0, sent: 1, ... }
+ * ```
+ */
+export class BulkBuffer {
+  private readonly maxBatchSize: number
+  private readonly maxBatchBytes: number
+  private readonly flushIntervalMs: number
+  private readonly maxQueueSize: number
+  private readonly dropPolicy: BufferDropPolicy
+  private readonly waiters: Array<() => void> = []
+  private queue: BufferedDocument[] = []
+  private queuedBytes = 0
+  private draining: Promise<void> | undefined
+  private timer: NodeJS.Timeout | undefined
+  private warnedFull = false
+  private sent = 0
+  private retried = 0
+  private dropped = 0
+  private batches = 0
+  private lastFlushAt: Date | undefined
+  private lastError: string | undefined
+
+  constructor(
+    private readonly send: BulkSender,
+    private readonly options: BufferConfig,
+    private readonly retryConfig: RetryConfig
+  ) {
+    this.maxBatchSize =
+      options.maxBatchSize ?? DEFAULT_BUFFER_CONFIG.maxBatchSize
+    this.maxBatchBytes =
+      options.maxBatchBytes ?? DEFAULT_BUFFER_CONFIG.maxBatchBytes
+    this.flushIntervalMs =
+      options.flushIntervalMs ?? DEFAULT_BUFFER_CONFIG.flushIntervalMs
+    this.maxQueueSize =
+      options.maxQueueSize ?? DEFAULT_BUFFER_CONFIG.maxQueueSize
+    this.dropPolicy = options.dropPolicy || DEFAULT_BUFFER_CONFIG.dropPolicy
+
+    if (this.maxBatchSize < 1 || this.maxQueueSize < 1) {
+      throw new Error('Buffer batch and queue sizes must be at least 1')
+    }
+  }
+
+  /**
+   * Counters describing the buffer.
+   *
+   * @returns {BufferStats} The current statistics.
+   */
+  get stats(): BufferStats {
+    return {
+      queued: this.queue.length,
+      queuedBytes: this.queuedBytes,
+      sent: this.sent,
+      retried: this.retried,
+      dropped: this.dropped,
+      batches: this.batches,
+      ...(this.lastFlushAt && { lastFlushAt: this.lastFlushAt }),
+      ...(this.lastError && { lastError: this.lastError }),
+    }
+  }
+
+  /**
+   * Queues a document for the next batch.
+   *
+   * @param {string} index - The index to write to.
+   * @param {Record<string, unknown>} body - The document to index.
+   * @returns {Promise<void>} A promise that resolves once the document is queued (or dropped).
+   */
+  async add(index: string, body: Record<string, unknown>): Promise<void> {
+    const document: BufferedDocument = {
+      index,
+      body,
+      attempts: 0,
+      size: Buffer.byteLength(JSON.stringify(body)),
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.warnFull()
+
+      if (this.dropPolicy === 'drop-newest') {
+        this.drop([document], 'queue-full')
+        return
+      }
+
+      if (this.dropPolicy === 'drop-oldest') {
+        this.drop(this.take(1), 'queue-full')
+      } else {
+        while (this.queue.length >= this.maxQueueSize) {
+          const space = new Promise<void>((resolve) =>
+            this.waiters.push(resolve)
+          )
+          void this.flush()
+          await space
+        }
+      }
+    }
+
+    this.queue.push(document)
+    this.queuedBytes += document.size
+
+    if (
+      this.queue.length >= this.maxBatchSize ||
+      this.queuedBytes >= this.maxBatchBytes
+    ) {
+      void this.flush()
+    } else {
+      this.schedule()
+    }
+  }
+
+  /**
+   * Sends every queued document, including documents queued while a batch
+   * was already being sent.
+   *
+   * @returns {Promise<void>} A promise that resolves when the queue is empty.
+   */
+  async flush(): Promise<void> {
+    while (this.draining || this.queue.length > 0) {
+      if (!this.draining) {
+        this.draining = this.drain().finally(() => {
+          this.draining = undefined
+        })
+      }
+      await this.draining
+    }
+  }
+
+  /**
+   * Sends batches until the queue is empty, backing off before resending
+   * items the cluster asked to retry.
+   */
+  private async drain(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.takeBatch()
+      const retry = await this.sendBatch(batch)
+
+      if (retry.length > 0) {
+        this.queue.unshift(...retry)
+        this.queuedBytes += retry.reduce((total, doc) => total + doc.size, 0)
+        this.retried += retry.length
+
+        const attempt = Math.max(...retry.map((doc) => doc.attempts))
+        await delay(computeBackoffDelay(attempt, this.retryConfig))
+      }
+    }
+
+    this.warnedFull = false
+  }
+
+  /**
+   * Sends one batch and sorts out the failed items: retryable ones are
+   * returned to be queued again, the others are dropped.
+   */
+  private async sendBatch(
+    batch: BufferedDocument[]
+  ): Promise<BufferedDocument[]> {
+    this.batches++
+    this.lastFlushAt = new Date()
+
+    let failures: BulkItemFailure[]
+    try {
+      failures = await this.send(batch)
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error'
+      console.error(
+        `Failed to send ${batch.length} buffered logs to OpenSearch:`,
+        this.lastError
+      )
+      this.drop(batch, 'failed')
+      return []
+    }
+
+    this.sent += batch.length - failures.length
+
+    const retry: BufferedDocument[] = []
+    const rejected: BufferedDocument[] = []
+    const exhausted: BufferedDocument[] = []
+
+    for (const failure of failures) {
+      const document = failure.document
+      document.attempts++
+      document.error = failure.error
+      document.status = failure.status
+      this.lastError = failure.error
+
+      if (!failure.retryable) {
+        rejected.push(document)
+      } else if (document.attempts >= this.retryConfig.maxAttempts) {
+        exhausted.push(document)
+      } else {
+        retry.push(document)
+      }
+    }
+
+    if (rejected.length > 0) this.drop(rejected, 'rejected')
+    if (exhausted.length > 0) this.drop(exhausted, 'failed')
+
+    return retry
+  }
+
+  /**
+   * Removes the next batch from the queue, bounded by count and bytes.
+   */
+  private takeBatch(): BufferedDocument[] {
+    let count = 0
+    let bytes = 0
+
+    while (count < this.queue.length && count < this.maxBatchSize) {
+      const size = this.queue[count]!.size
+      if (count > 0 && bytes + size > this.maxBatchBytes) break
+      bytes += size
+      count++
+    }
+
+    return this.take(count)
+  }
+
+  /**
+   * Removes documents from the front of the queue and wakes blocked callers.
+   */
+  private take(count: number): BufferedDocument[] {
+    const documents = this.queue.splice(0, count)
+    this.queuedBytes -= documents.reduce((total, doc) => total + doc.size, 0)
+
+    this.waiters.splice(0).forEach((resolve) => resolve())
+    return documents
+  }
+
+  /**
+   * Starts the flush timer if it is not running. The timer does not keep the
+   * process alive.
+   */
+  private schedule(): void {
+    if (this.timer) return
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      void this.flush()
+    }, this.flushIntervalMs)
+    this.timer.unref()
+  }
+
+  /**
+   * Counts dropped documents and passes them to `onDrop`, logging listener errors.
+   */
+  private drop(documents: BufferedDocument[], reason: BufferDropReason): void {
+    this.dropped += documents.length
+
+    try {
+      this.options.onDrop?.(documents, reason)
+    } catch (error) {
+      console.error(
+        'Buffer drop listener failed:',
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+    }
+  }
+
+  /**
+   * Warns once each time the queue fills up, until it has been drained.
+   */
+  private warnFull(): void {
+    if (this.warnedFull) return
+
+    this.warnedFull = true
+    console.warn(
+      `Log buffer is full (${this.maxQueueSize} documents), applying ${this.dropPolicy} policy`
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { IndexStrategy } from './types'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Get the ISO 8601 week and week-numbering year of a date, in UTC.
+ *
+ * @param {Date} date - The date.
+ * @returns {{ year: number; week: number }} The ISO week-numbering year and week.
+ */
+function getIsoWeek(date: Date): { year: number; week: number } {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  )
+  // Thursday of the same week decides the year
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7))
+
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7)
+
+  return { year: day.getUTCFullYear(), week }
+}
+
+/**
+ * Get the index a document is written to under a naming strategy.
+ * Suffixes use the UTC date of the document.
+ *
+ * @param {string} base - The base index name, e.g. `logs` or `logs-transactions`.
+ * @param {IndexStrategy} strategy - The naming strategy.
+ * @param {Date} date - The timestamp of the document.
+ * @returns {string} The index name.
+ *
+ * @example
+ * ```typescript
+ * resolveIndexName('logs', 'daily', new Date('2026-10-19T12:00:00Z'))
+ * // Output: 'logs-2026.10.19'
+ *
+ * resolveIndexName('logs', 'weekly', new Date('2026-10-19T12:00:00Z'))
+ * // Output: 'logs-2026.w43'
+ * ```
+ */
+export function resolveIndexName(
+  base: string,
+  strategy: IndexStrategy,
+  date: Date
+): string {
+  const year = date.getUTCFullYear()
+  const month = pad(date.getUTCMonth() + 1)
+
+  switch (strategy) {
+    case 'daily':
+      return `${base}-${year}.${month}.${pad(date.getUTCDate())}`
+    case 'weekly': {
+      const isoWeek = getIsoWeek(date)
+      return `${base}-${isoWeek.year}.w${pad(isoWeek.week)}`
+    }
+    case 'monthly':
+      return `${base}-${year}.${month}`
+    default:
+      return base
+  }
+}
+
+/**
+ * Get the search target covering every index written under a naming
+ * strategy. Time-based indices are matched with a wildcard, and indices that
+ * share the base name but hold other documents are excluded.
+ *
+ * @param {string} base - The base index name.
+ * @param {IndexStrategy} strategy - The naming strategy.
+ * @param {string[]} [exclude] - Index names or patterns to leave out of the wildcard.
+ * @returns {string} A comma-separated search target.
+ *
+ * @example
+ * ```typescript
+ * getIndexPattern('logs', 'daily', ['logs-transactions-*'])
+ * // Output: 'logs-*,-logs-transactions-*'
+ * ```
+ */
+export function getIndexPattern(
+  base: string,
+  strategy: IndexStrategy,
+  exclude: string[] = []
+): string {
+  if (strategy === 'fixed' || strategy === 'data-stream') {
+    return base
+  }
+
+  return [`${base}-*`, ...exclude.map((pattern) => `-${pattern}`)].join(',')
+}
+
+/**
+ * Get the version of an index created by `migrateIndex`, named
+ * `<alias>-v<version>`.
+ *
+ * @param {string} alias - The alias the index belongs to.
+ * @param {string} index - The index name.
+ * @returns {number} The version, or 0 when the index is not versioned.
+ *
+ * @example
+ * ```typescript
+ * getIndexVersion('logs', 'logs-v3')
+ * // Output: 3
+ * ```
+ */
+export function getIndexVersion(alias: string, index: string): number {
+  const prefix = `${alias}-v`
+  const suffix = index.startsWith(prefix) ? index.slice(prefix.length) : ''
+
+  return /^\d+$/.test(suffix) ? Number(suffix) : 0
+}
@@ -0,0 +1,241 @@
+import { createHash } from 'crypto'
+
+export const MANAGED_BY = 'star-node-stack-helper'
+
+const keyword = { type: 'keyword' }
+
+// Unknown string fields (meta, context, runtime) become keywords instead of
+// analysed text, which keeps them aggregatable and the mapping small
+const DYNAMIC_TEMPLATES = [
+  {
+    strings_as_keywords: {
+      match_mapping_type: 'string',
+      mapping: { type: 'keyword', ignore_above: 1024 },
+    },
+  },
+]
+
+const COMMON_PROPERTIES = {
+  timestamp: { type: 'date' },
+  '@timestamp': { type: 'date' },
+  service: keyword,
+  environment: keyword,
+  runtime: { type: 'object', dynamic: true },
+}
+
+export const SYSTEM_LOG_PROPERTIES: Record<string, unknown> = {
+  ...COMMON_PROPERTIES,
+  level: keyword,
+  message: { type: 'text' },
+}
+
+export const TRANSACTION_LOG_PROPERTIES: Record<string, unknown> = {
+  ...COMMON_PROPERTIES,
+  name: keyword,
+  microservice: keyword,
+  transactionId: keyword,
+  userId: keyword,
+  appointmentId: keyword,
+  platform: keyword,
+  operation: keyword,
+  status: keyword,
+  duration: { type: 'float' },
+  context: { type: 'object', dynamic: true },
+  requestMeta: {
+    properties: {
+      method: keyword,
+      path: keyword,
+      ip: keyword,
+      userAgent: {
+        type: 'text',
+        fields: { keyword: { type: 'keyword', ignore_above: 512 } },
+      },
+    },
+  },
+  responseMeta: {
+    properties: {
+      statusCode: { type: 'integer' },
+      responseSize: { type: 'long' },
+      // Response bodies have no fixed shape, so they are stored but not indexed
+      data: { type: 'object', enabled: false },
+    },
+  },
+  error: {
+    properties: {
+      message: { type: 'text' },
+      code: keyword,
+      stack: { type: 'text', index: false },
+    },
+  },
+}
+
+export const DEAD_LETTER_PROPERTIES: Record<string, unknown> = {
+  timestamp: { type: 'date' },
+  service: keyword,
+  environment: keyword,
+  targetIndex: keyword,
+  reason: { type: 'text' },
+  status: { type: 'integer' },
+  payload: { type: 'text', index: false },
+}
+
+export interface IndexTemplateSpec {
+  name: string
+  indexPatterns: string[]
+  properties: Record<string, unknown>
+  priority: number
+  version: number
+  shards: number
+  replicas: number
+  dataStream?: boolean
+}
+
+export interface IndexTemplateBody extends Record<string, unknown> {
+  version: number
+  _meta: { managed_by: string; hash: string }
+}
+
+export interface RetentionPolicyBody extends Record<string, unknown> {
+  policy: { description: string } & Record<string, unknown>
+}
+
+export interface RetentionPolicySpec {
+  id: string
+  indexPatterns: string[]
+  priority: number
+  version: number
+  retentionDays?: number
+  rolloverAfter?: string
+}
+
+/**
+ * Hash a definition so changes are detected even without a version bump.
+ *
+ * @param {unknown} value - The definition to hash.
+ * @returns {string} The first 12 hex characters of its SHA-256.
+ */
+function hashDefinition(value: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(value))
+    .digest('hex')
+    .slice(0, 12)
+}
+
+/**
+ * Build the mappings of a log index: typed `properties`, with unknown string
+ * fields mapped as keywords.
+ *
+ * @param {Record<string, unknown>} properties - The field mappings.
+ * @returns {Record<string, unknown>} The `mappings` of an index or template.
+ */
+export function buildIndexMappings(
+  properties: Record<string, unknown>
+): Record<string, unknown> {
+  return { dynamic_templates: DYNAMIC_TEMPLATES, properties }
+}
+
+/**
+ * Build the body of a composable index template. `_meta` records that the
+ * template is managed by this package and a hash of its content.
+ *
+ * @param {IndexTemplateSpec} spec - The patterns, mappings and settings of the template.
+ * @returns {IndexTemplateBody} The body for `PUT _index_template/<name>`.
+ *
+ * @example
+ * ```typescript
+ * buildIndexTemplate({
+ *   name: 'logs',
+ *   indexPatterns: ['logs-*'],
+ *   properties: SYSTEM_LOG_PROPERTIES,
+ *   priority: 100,
+ *   version: 1,
+ *   shards: 1,
+ *   replicas: 1,
+ * })
+ * ```
+ */
+export function buildIndexTemplate(spec: IndexTemplateSpec): IndexTemplateBody {
+  const body = {
+    index_patterns: spec.indexPatterns,
+    priority: spec.priority,
+    version: spec.version,
+    ...(spec.dataStream && { data_stream: {} }),
+    template: {
+      settings: {
+        index: {
+          number_of_shards: spec.shards,
+          number_of_replicas: spec.replicas,
+        },
+      },
+      mappings: buildIndexMappings(spec.properties),
+    },
+  }
+
+  return {
+    ...body,
+    _meta: { managed_by: MANAGED_BY, hash: hashDefinition(body) },
+  }
+}
+
+/**
+ * Build the body of an ISM policy. With `retentionDays`, indices move from
+ * `hot` to `delete` once they are that old; data stream backing indices also
+ * roll over after `rolloverAfter`. Without it the policy only keeps indices
+ * in `hot`, which stops a broader policy from deleting them.
+ *
+ * The description records the version and a hash of the policy, so an
+ * unchanged policy can be recognised.
+ *
+ * @param {RetentionPolicySpec} spec - The patterns and retention of the policy.
+ * @returns {RetentionPolicyBody} The body for `PUT _plugins/_ism/policies/<id>`.
+ *
+ * @example
+ * ```typescript
+ * buildRetentionPolicy({
+ *   id: 'logs-retention',
+ *   indexPatterns: ['logs-*'],
+ *   priority: 100,
+ *   version: 1,
+ *   retentionDays: 30,
+ * })
+ * ```
+ */
+export function buildRetentionPolicy(
+  spec: RetentionPolicySpec
+): RetentionPolicyBody {
+  const hot = {
+    name: 'hot',
+    actions: spec.rolloverAfter
+      ? [{ rollover: { min_index_age: spec.rolloverAfter } }]
+      : [],
+    transitions: spec.retentionDays
+      ? [
+          {
+            state_name: 'delete',
+            conditions: { min_index_age: `${spec.retentionDays}d` },
+          },
+        ]
+      : [],
+  }
+  const states = spec.retentionDays
+    ? [hot, { name: 'delete', actions: [{ delete: {} }], transitions: [] }]
+    : [hot]
+
+  const policy = {
+    default_state: 'hot',
+    states,
+    ism_template: [
+      { index_patterns: spec.indexPatterns, priority: spec.priority },
+    ],
+  }
+  const summary = spec.retentionDays
+    ? `delete after ${spec.retentionDays} days`
+    : 'keep'
+
+  return {
+    policy: {
+      description: `Managed by ${MANAGED_BY} (v${spec.version}, ${hashDefinition(policy)}): ${summary}`,
+      ...policy,
+    },
+  }
+}
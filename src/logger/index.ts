@@ -1,18 +1,106 @@
-import { Client, ClientOptions } from '@opensearch-project/opensearch'
+import { appendFile, mkdir, readFile, rename, unlink } from 'fs/promises'
+import { dirname } from 'path'
+import { Client, ClientOptions, errors } from '@opensearch-project/opensearch'
 import { AwsSigv4Signer } from '@opensearch-project/opensearch/aws'
-import { defaultProvider } from '@aws-sdk/credential-provider-node'
+import { createCredentialsProvider } from '../aws'
 import {
+  CircuitBreaker,
+  CircuitOpenError,
+  delay,
+  getStatusCode,
+  isNetworkError,
+  isRetryableError,
+  retryWithBackoff,
+} from '../resilience'
+import { RetryConfig } from '../resilience/types'
+import { detectRuntime } from '../runtime'
+import { redactSecrets } from '../redaction'
+import { RuntimeInfo } from '../runtime/types'
+import { BulkBuffer } from './bulk-buffer'
+import {
+  getIndexPattern,
+  getIndexVersion,
+  resolveIndexName,
+} from './index-naming'
+import {
+  DEAD_LETTER_PROPERTIES,
+  IndexTemplateSpec,
+  MANAGED_BY,
+  RetentionPolicySpec,
+  SYSTEM_LOG_PROPERTIES,
+  TRANSACTION_LOG_PROPERTIES,
+  buildIndexMappings,
+  buildIndexTemplate,
+  buildRetentionPolicy,
+} from './index-templates'
+import { DiskSpool } from './spool'
+import {
+  BufferConfig,
+  BufferDropReason,
+  BufferedDocument,
+  BulkItemFailure,
+  CloseOptions,
+  DeadLetterEntry,
+  DeadLetterReplayResult,
+  IndexInfrastructureOptions,
+  IndexInfrastructureResult,
+  IndexMigrationOptions,
+  IndexMigrationResult,
+  IndexStrategy,
+  InfrastructureChange,
+  IndexTemplateLike,
+  IsmPolicyLike,
   LoggerConfig,
   LogLevel,
   LogTransaction,
   SearchQuery,
   OpenSearchHit,
   OpenSearchResponse,
+  OpenSearchBulkResponse,
+  RejectedDocument,
+  ReplayDeadLettersOptions,
+  SpoolEntry,
 } from './types'
 
+const DEFAULT_LOGGER_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  delayMs: 200,
+  maxDelayMs: 5000,
+}
+
+const DEFAULT_SPOOL_REPLAY_INTERVAL_MS = 30 * 1000
+
+const DEFAULT_DEAD_LETTER_BATCH_SIZE = 500
+
+const DEFAULT_CLOSE_TIMEOUT_MS = 10 * 1000
+
+const DEFAULT_MIGRATION_POLL_INTERVAL_MS = 1000
+
+const WRITE_BLOCK_ERROR = 'cluster_block_exception'
+
+const DEFAULT_INFRASTRUCTURE_OPTIONS = {
+  version: 1,
+  shards: 1,
+  replicas: 1,
+  rolloverAfter: '1d',
+}
+
 export class ElasticLogger {
+  readonly circuitBreaker: CircuitBreaker
+  readonly buffer: BulkBuffer | undefined
+  readonly spool: DiskSpool | undefined
+  private replayTimer: NodeJS.Timeout | undefined
+  private deadLetter: { index: string; file?: string } | undefined
+  private readonly pendingDrops = new Set<Promise<void>>()
+  private readonly pendingWrites = new Set<Promise<void>>()
+  private readonly heldWrites = new Map<string, Promise<void>>()
+  private closed = false
+  private closing: Promise<void> | undefined
+  private retryConfig: RetryConfig
+  private runtime: RuntimeInfo | undefined
   private client: Client
   private index: string
+  private indexStrategy: IndexStrategy
   private service: string
   private environment: string
   private region: string
@@ -22,18 +110,54 @@ export class ElasticLogger {
   constructor(config: LoggerConfig) {
     this.validateConfig(config)
     this.index = config.index
+    this.indexStrategy = config.indexStrategy || 'fixed'
     this.service = config.service
     this.environment = config.environment
     this.region = config.region
     this.awsService = config.awsService || 'aoss'
+    this.retryConfig = config.retryConfig || DEFAULT_LOGGER_RETRY_CONFIG
+    if (config.runtimeMetadata) {
+      // Detected in the background so the first log is not held by the
+      // ECS or IMDS lookups outside AWS
+      detectRuntime()
+        .then((runtime) => (this.runtime = runtime))
+        .catch(() => undefined)
+    }
+    // Only transient errors count towards opening the circuit, so a bad
+    // document does not stop every other log from being sent
+    this.circuitBreaker = new CircuitBreaker({
+      name: 'opensearch',
+      isFailure: isRetryableError,
+      ...config.circuitBreaker,
+    })
+    this.spool = config.spool ? new DiskSpool(config.spool) : undefined
+    if (config.deadLetter) {
+      const deadLetter = config.deadLetter === true ? {} : config.deadLetter
+      this.deadLetter = {
+        index: deadLetter.index || `${this.index}-deadletter`,
+        ...(deadLetter.file && { file: deadLetter.file }),
+      }
+    }
+    this.buffer = config.buffer
+      ? this.createBuffer(config.buffer === true ? {} : config.buffer)
+      : undefined
+
+    if (config.spool) {
+      this.replayTimer = setInterval(
+        () => void this.replaySpoolWhenHealthy(),
+        config.spool.replayIntervalMs ?? DEFAULT_SPOOL_REPLAY_INTERVAL_MS
+      )
+      this.replayTimer.unref()
+    }
 
+    // Retries are handled by retryWithBackoff, not by the client
     const clientConfig: ClientOptions = {
       node: config.node,
       ssl: {
         rejectUnauthorized: this.environment === 'production',
       },
       requestTimeout: this.timeout,
-      maxRetries: 3,
+      maxRetries: 0,
     }
 
     if (config.authType === 'aws' || (!config.username && !config.password)) {
@@ -43,10 +167,7 @@ export class ElasticLogger {
         AwsSigv4Signer({
           region: this.region,
           service: this.awsService,
-          getCredentials: () => {
-            const credentialsProvider = defaultProvider()
-            return credentialsProvider()
-          },
+          getCredentials: createCredentialsProvider(config, this.region),
         })
       )
     } else if (config.username && config.password) {
@@ -156,10 +277,389 @@ export class ElasticLogger {
     }
   }
 
+  /**
+   * Indexes a document through the circuit breaker, retrying transient errors
+   *
+   * This method retries connection errors, throttling and 5xx responses with
+   * exponential backoff. While the circuit is open it fails immediately with
+   * a CircuitOpenError instead of waiting for the cluster to time out.
+   *
+   * @param index - The index to write to
+   * @param body - The document to index
+   * @returns Promise<void> - Returns a promise that resolves when the document is indexed
+   */
+  private async indexDocument(
+    index: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const isRetryable =
+      this.retryConfig.isRetryable ||
+      ((error: unknown) => isRetryableError(error))
+
+    await this.circuitBreaker.execute(() =>
+      retryWithBackoff(
+        () => this.client.index({ index, body, ...this.getOpType() }),
+        {
+          ...this.retryConfig,
+          isRetryable: (error, attempt) =>
+            this.isWriteBlocked(error) || isRetryable(error, attempt),
+        }
+      )
+    )
+  }
+
+  /**
+   * Creates the bulk buffer
+   *
+   * This method creates the buffer used when `buffer` is enabled. With a
+   * spool configured, batches that could not be delivered are written to
+   * disk, and with a dead letter configured, documents the cluster rejected
+   * are stored there. Only the documents that could not be kept reach the
+   * `onDrop` callback.
+   *
+   * @param bufferConfig - The buffer configuration
+   * @returns BulkBuffer - The buffer
+   */
+  private createBuffer(bufferConfig: BufferConfig): BulkBuffer {
+    const onDrop = (
+      documents: BufferedDocument[],
+      reason: BufferDropReason
+    ) => {
+      let keep: Promise<number> | undefined
+      if (reason === 'failed' && this.spool) {
+        keep = this.spoolDocuments(documents)
+      } else if (reason === 'rejected' && this.deadLetter) {
+        keep = this.deadLetterDocuments(
+          documents.map(({ index, body, error, status }) => ({
+            index,
+            body,
+            reason: error || 'Rejected by OpenSearch',
+            ...(status !== undefined && { status }),
+          }))
+        )
+      }
+
+      if (!keep) {
+        bufferConfig.onDrop?.(documents, reason)
+        return
+      }
+
+      const pending = keep.then((written) => {
+        if (written < documents.length) {
+          bufferConfig.onDrop?.(documents.slice(written), reason)
+        }
+      })
+      this.pendingDrops.add(pending)
+      void pending.finally(() => this.pendingDrops.delete(pending))
+    }
+
+    return new BulkBuffer(
+      (batch) => this.sendBulk(batch),
+      { ...bufferConfig, onDrop },
+      this.retryConfig
+    )
+  }
+
+  /**
+   * Writes documents that could not be delivered to the spool
+   *
+   * This method appends the documents to the on-disk spool so they can be
+   * replayed once the cluster is reachable again.
+   *
+   * @param documents - The documents to keep, with their target index
+   * @returns Promise<number> - The number of documents written to the spool
+   */
+  private async spoolDocuments(documents: SpoolEntry[]): Promise<number> {
+    if (!this.spool) {
+      return 0
+    }
+
+    try {
+      const written = await this.spool.append(
+        documents.map(({ index, body }) => ({ index, body }))
+      )
+      if (written > 0) {
+        console.warn(
+          `OpenSearch is unreachable, spooled ${written} logs to disk`
+        )
+      }
+      return written
+    } catch (error) {
+      console.error(
+        'Failed to write logs to the spool:',
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      return 0
+    }
+  }
+
+  /**
+   * Stores documents rejected by the cluster in the dead letter
+   *
+   * This method writes each document with the rejection reason, the target
+   * index and the original payload to the dead-letter index, or appends it
+   * to the dead-letter file. The payload is kept as a JSON string so the
+   * field that was rejected cannot be rejected again by the dead-letter index.
+   *
+   * @param rejected - The rejected documents with their reason
+   * @returns Promise<number> - The number of documents stored (all or none)
+   */
+  private async deadLetterDocuments(
+    rejected: RejectedDocument[]
+  ): Promise<number> {
+    const deadLetter = this.deadLetter
+    if (!deadLetter || rejected.length === 0) {
+      return 0
+    }
+
+    const timestamp = new Date().toISOString()
+    const entries: DeadLetterEntry[] = rejected.map(
+      ({ index, body, reason, status }) => ({
+        timestamp,
+        service: this.service,
+        environment: this.environment,
+        targetIndex: index,
+        reason,
+        ...(status !== undefined && { status }),
+        payload: JSON.stringify(body),
+      })
+    )
+    const target = deadLetter.file || deadLetter.index
+
+    try {
+      if (deadLetter.file) {
+        await mkdir(dirname(deadLetter.file), { recursive: true })
+        await appendFile(
+          deadLetter.file,
+          entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+        )
+      } else {
+        const body = entries.flatMap((entry) => [
+          { index: { _index: deadLetter.index } },
+          entry,
+        ])
+        await this.circuitBreaker.execute(() =>
+          retryWithBackoff(() => this.client.bulk({ body }), this.retryConfig)
+        )
+      }
+
+      console.warn(`Stored ${entries.length} rejected logs in ${target}`)
+      return entries.length
+    } catch (error) {
+      console.error(
+        `Failed to store rejected logs in ${target}:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      return 0
+    }
+  }
+
+  /**
+   * Replays the spool if it has documents and the cluster answers
+   *
+   * This method runs on the spool replay interval. The replay itself is
+   * started by healthCheck when the ping succeeds.
+   *
+   * @returns Promise<void> - Returns a promise that resolves when the check is done
+   */
+  private async replaySpoolWhenHealthy(): Promise<void> {
+    try {
+      if (await this.spool?.hasPending()) {
+        await this.healthCheck()
+      }
+    } catch (error) {
+      console.error(
+        'Failed to check the log spool:',
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+    }
+  }
+
+  /**
+   * Sends a batch of buffered documents in a single _bulk request
+   *
+   * This method sends the batch through the circuit breaker with the same
+   * retries as indexDocument. When the request succeeds but some items were
+   * not indexed, it returns those items so the buffer can retry throttled
+   * ones and drop the rest.
+   *
+   * @param batch - The documents to send, with their target index
+   * @returns Promise<BulkItemFailure[]> - The items the cluster did not accept
+   */
+  private async sendBulk(
+    batch: BufferedDocument[]
+  ): Promise<BulkItemFailure[]> {
+    // Data streams only accept the create action
+    const action = this.indexStrategy === 'data-stream' ? 'create' : 'index'
+    const body = batch.flatMap((document) => [
+      { [action]: { _index: document.index } },
+      document.body,
+    ])
+
+    // migrateIndex makes an index read-only until the alias replaces it
+    await Promise.all(
+      batch.map((document) => this.heldWrites.get(document.index))
+    )
+
+    const response = (await this.circuitBreaker.execute(() =>
+      retryWithBackoff(() => this.client.bulk({ body }), this.retryConfig)
+    )) as OpenSearchBulkResponse
+
+    if (!response.body.errors) {
+      return []
+    }
+
+    const failures: BulkItemFailure[] = []
+    response.body.items.forEach((item, position) => {
+      const result = Object.values(item)[0]
+      const document = batch[position]
+      if (!result?.error || !document) return
+
+      const error = result.error.reason || result.error.type
+      const retryable =
+        result.error.type === WRITE_BLOCK_ERROR ||
+        isRetryableError({ statusCode: result.status })
+      if (!retryable) {
+        console.error(`Failed to index log into ${document.index}:`, error)
+      }
+      failures.push({ document, status: result.status, error, retryable })
+    })
+
+    return failures
+  }
+
+  /**
+   * Gets the runtime metadata to attach to each document
+   *
+   * This method returns the runtime detected when the logger was created with
+   * `runtimeMetadata`, so the platform, region, cluster, task and pod are
+   * searchable with every log. Documents written before detection finished
+   * are sent without it.
+   *
+   * @returns { runtime?: RuntimeInfo } - The runtime field, or an empty object when disabled or not detected yet
+   */
+  private getRuntimeFields(): { runtime?: RuntimeInfo } {
+    return this.runtime ? { runtime: this.runtime } : {}
+  }
+
+  /**
+   * Runs a write and keeps track of it until it settles
+   *
+   * This method lets close wait for writes that are still in flight. Once the
+   * logger is closed it rejects new writes.
+   *
+   * @param operation - The write to run
+   * @returns Promise<void> - Returns a promise that resolves when the write is done
+   */
+  private async track(operation: () => Promise<void>): Promise<void> {
+    if (this.closed) {
+      throw new Error('ElasticLogger is closed')
+    }
+
+    const write = operation()
+    this.pendingWrites.add(write)
+    try {
+      await write
+    } finally {
+      this.pendingWrites.delete(write)
+    }
+  }
+
+  /**
+   * Sends a document to its index
+   *
+   * This method queues the document when `buffer` is enabled. Otherwise it
+   * indexes the document right away and hands failures to processError.
+   *
+   * @param index - The index to write to
+   * @param body - The document to index
+   * @returns Promise<void> - Returns a promise that resolves when the document is sent or queued
+   */
+  private async write(
+    index: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    if (this.buffer) {
+      await this.buffer.add(index, body)
+      return
+    }
+
+    // migrateIndex makes the index read-only until the alias replaces it
+    await this.heldWrites.get(index)
+
+    try {
+      await this.indexDocument(index, body)
+    } catch (error) {
+      await this.processError(error as Error, body, index)
+    }
+  }
+
+  /**
+   * Gets the index a document is written to
+   *
+   * This method applies the `indexStrategy`: the base name for `fixed` and
+   * `data-stream`, or the base name with a daily, weekly or monthly suffix.
+   *
+   * @param base - The main or transactions index name
+   * @param date - The timestamp of the document
+   * @returns string - The index name
+   */
+  private getWriteIndex(base: string, date: Date): string {
+    return resolveIndexName(base, this.indexStrategy, date)
+  }
+
+  /**
+   * Gets the search target for the main or transactions index
+   *
+   * This method returns a wildcard pattern for time-based indices. The
+   * pattern for the main index leaves out the transactions and dead-letter
+   * indices, which share its name as a prefix.
+   *
+   * @param base - The main or transactions index name
+   * @returns string - The index, data stream or pattern to search
+   */
+  private getSearchIndex(base: string): string {
+    const exclude =
+      base === this.index
+        ? [
+            `${this.index}-transactions*`,
+            ...(this.deadLetter ? [this.deadLetter.index] : []),
+          ]
+        : []
+    return getIndexPattern(base, this.indexStrategy, exclude)
+  }
+
+  /**
+   * Gets the timestamp fields of a document
+   *
+   * This method adds `@timestamp` next to `timestamp` for data streams,
+   * which require it.
+   *
+   * @param date - The timestamp of the document
+   * @returns Record<string, string> - The timestamp fields
+   */
+  private getTimestampFields(date: Date): Record<string, string> {
+    const timestamp = date.toISOString()
+    return this.indexStrategy === 'data-stream'
+      ? { '@timestamp': timestamp, timestamp }
+      : { timestamp }
+  }
+
+  /**
+   * Gets the op_type for single-document writes
+   *
+   * @returns { op_type?: 'create' } - `create` for data streams, which reject plain index requests
+   */
+  private getOpType(): { op_type?: 'create' } {
+    return this.indexStrategy === 'data-stream' ? { op_type: 'create' } : {}
+  }
+
   /**
    * Logs a message to the Elasticsearch/OpenSearch cluster
    *
-   * This method logs a message to the main index.
+   * This method logs a message to the main index. Loaded secret values in
+   * the message or metadata are masked before it is sent. With `buffer`
+   * enabled the message is queued for the next bulk request instead.
    *
    * @param level - The log level (info, warn, error, debug)
    * @param service - The service associated with the log
@@ -182,29 +682,28 @@ export class ElasticLogger {
       throw new Error('Message and service are required')
     }
 
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level,
-      service: this.service,
-      environment: this.environment,
-      message,
-      ...meta,
-    }
-
-    try {
-      await this.client.index({
-        index: this.index,
-        body: logEntry,
+    await this.track(async () => {
+      const now = new Date()
+      const logEntry = redactSecrets({
+        ...this.getTimestampFields(now),
+        level,
+        service: this.service,
+        environment: this.environment,
+        message,
+        ...this.getRuntimeFields(),
+        ...meta,
       })
-    } catch (error) {
-      await this.processError(error as Error, logEntry)
-    }
+
+      await this.write(this.getWriteIndex(this.index, now), logEntry)
+    })
   }
 
   /**
    * Logs a transaction to the Elasticsearch/OpenSearch cluster
    *
-   * This method logs a transaction to the transactions index.
+   * This method logs a transaction to the transactions index. Loaded secret
+   * values in the transaction are masked before it is sent. With `buffer`
+   * enabled the transaction is queued for the next bulk request instead.
    *
    * @param transaction - The transaction to log
    * @returns Promise<void> - Returns a promise that resolves when the transaction is logged
@@ -222,21 +721,21 @@ export class ElasticLogger {
       throw new Error('Transaction name is required')
     }
 
-    const doc = {
-      timestamp: new Date().toISOString(),
-      service: this.service,
-      environment: this.environment,
-      ...transaction,
-    }
-
-    try {
-      await this.client.index({
-        index: `${this.index}-transactions`,
-        body: doc,
+    await this.track(async () => {
+      const now = new Date()
+      const doc = redactSecrets({
+        ...this.getTimestampFields(now),
+        service: this.service,
+        environment: this.environment,
+        ...this.getRuntimeFields(),
+        ...transaction,
       })
-    } catch (error) {
-      await this.processError(error as Error, doc)
-    }
+
+      await this.write(
+        this.getWriteIndex(`${this.index}-transactions`, now),
+        doc
+      )
+    })
   }
 
   /**
@@ -259,7 +758,7 @@ export class ElasticLogger {
     const validQueries = this.validateQueries(queries)
 
     const searchConfig: SearchQuery = {
-      index: this.index,
+      index: this.getSearchIndex(this.index),
       fields: ['message', 'service', 'level'],
     }
 
@@ -298,7 +797,7 @@ export class ElasticLogger {
     const validQueries = this.validateQueries(queries)
 
     const searchConfig: SearchQuery = {
-      index: `${this.index}-transactions`,
+      index: this.getSearchIndex(`${this.index}-transactions`),
       fields: ['name', 'service', 'status'],
     }
 
@@ -318,8 +817,9 @@ export class ElasticLogger {
   /**
    * Flushes the indices to ensure that the logs are visible
    *
-   * This method refreshes both the main index and the transactions index
-   * to ensure that the logs are visible in the search results.
+   * This method sends any buffered documents, then refreshes both the main
+   * index and the transactions index to ensure that the logs are visible in
+   * the search results.
    *
    * @example
    * ```typescript
@@ -329,10 +829,16 @@ export class ElasticLogger {
    * ```
    */
   async flush(): Promise<void> {
+    await this.sendPending()
+
     try {
       await Promise.all([
-        this.client.indices.refresh({ index: this.index }),
-        this.client.indices.refresh({ index: `${this.index}-transactions` }),
+        this.client.indices.refresh({
+          index: this.getSearchIndex(this.index),
+        }),
+        this.client.indices.refresh({
+          index: this.getSearchIndex(`${this.index}-transactions`),
+        }),
       ])
     } catch (error) {
       console.error('Failed to flush indices:', error)
@@ -342,12 +848,106 @@ export class ElasticLogger {
     }
   }
 
+  /**
+   * Waits for every write that has not been delivered yet
+   *
+   * This method waits for writes in flight, sends the buffered documents and
+   * waits for pending spool and dead-letter writes.
+   *
+   * @returns Promise<void> - Returns a promise that resolves when nothing is pending
+   */
+  private async sendPending(): Promise<void> {
+    while (this.pendingWrites.size > 0) {
+      await Promise.allSettled(this.pendingWrites)
+    }
+    await this.buffer?.flush()
+    await Promise.all(this.pendingDrops)
+    await this.spool?.settled()
+  }
+
+  /**
+   * Closes the logger after sending pending logs
+   *
+   * This method stops the spool replay timer, waits for writes scheduled with
+   * setImmediate by the middleware and interceptors, sends the buffered
+   * documents and waits for every pending write, then closes the OpenSearch
+   * client. If that takes longer than `timeoutMs`, the client is closed
+   * anyway and the remaining logs are lost (or left in the spool). Later
+   * calls to log and logTransaction are rejected.
+   *
+   * @param options - Optional `timeoutMs`, 10 seconds by default
+   * @returns Promise<void> - Returns a promise that resolves when the logger is closed
+   *
+   * @example
+   * ```typescript
+   * const logger = new ElasticLogger(config)
+   * process.on('SIGTERM', async () => {
+   *   await logger.close({ timeoutMs: 5000 })
+   *   process.exit(0)
+   * })
+   * ```
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    if (!this.closing) {
+      this.closing = this.shutdown(
+        options.timeoutMs ?? DEFAULT_CLOSE_TIMEOUT_MS
+      )
+    }
+    return this.closing
+  }
+
+  /**
+   * Drains the logger within the timeout and closes the client
+   *
+   * @param timeoutMs - How long to wait for pending logs
+   * @returns Promise<void> - Returns a promise that resolves when the client is closed
+   */
+  private async shutdown(timeoutMs: number): Promise<void> {
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer)
+      this.replayTimer = undefined
+    }
+
+    // Let fire-and-forget writes scheduled by the middleware start first
+    await new Promise((resolve) => setImmediate(resolve))
+
+    let timer: NodeJS.Timeout | undefined
+    const timedOut = await Promise.race([
+      this.sendPending().then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), timeoutMs)
+      }),
+    ])
+    clearTimeout(timer)
+
+    if (timedOut) {
+      console.warn(
+        `ElasticLogger closed after ${timeoutMs}ms with logs still pending`,
+        {
+          writes: this.pendingWrites.size,
+          queued: this.buffer?.stats.queued ?? 0,
+        }
+      )
+    }
+
+    this.closed = true
+    try {
+      await this.client.close()
+    } catch (error) {
+      console.error(
+        'Failed to close the OpenSearch client:',
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+    }
+  }
+
   /**
    * Performs a health check on the Elasticsearch/OpenSearch cluster
    *
    * This method sends a ping request to the configured cluster to verify
    * connectivity and basic cluster health. It's useful for monitoring
-   * and ensuring the logging service is available.
+   * and ensuring the logging service is available. When the ping succeeds
+   * and the spool holds documents, it starts replaying them.
    *
    * @returns Promise<boolean> - Returns true if the cluster is reachable and healthy,
    *                            false if the health check fails or cluster is unreachable
@@ -366,6 +966,14 @@ export class ElasticLogger {
   async healthCheck(): Promise<boolean> {
     try {
       await this.client.ping()
+      if (await this.spool?.hasPending()) {
+        this.replaySpool().catch((error) =>
+          console.error(
+            'Failed to replay spooled logs:',
+            error instanceof Error ? error.message : 'Unknown error'
+          )
+        )
+      }
       return true
     } catch (error) {
       console.error('Elasticsearch health check failed:', error)
@@ -374,57 +982,386 @@ export class ElasticLogger {
   }
 
   /**
-   * Processes an error and logs it to the Elasticsearch/OpenSearch cluster
+   * Replays the documents kept in the spool
    *
-   * This method processes an error and logs it to the Elasticsearch/OpenSearch cluster.
-   * It checks for mapping errors and attempts to fix them.
+   * This method sends the spooled documents to their indices in the order
+   * they were written, deleting each segment once it is delivered. It stops
+   * at the first failure and keeps the rest for the next replay. Documents
+   * the cluster rejects as invalid go to the dead letter, if configured.
    *
-   * @param error - The error to process
-   * @param body - The body to log
-   * @returns Promise<void> - Returns a promise that resolves when the error is processed
+   * @returns Promise<number> - The number of documents replayed
    *
    * @example
    * ```typescript
-   * const logger = new ElasticLogger(config)
-   * await logger.processError(new Error('Mapping error'), { message: 'Test error' })
+   * const logger = new ElasticLogger({ ...config, spool: { directory: '/var/spool/app-logs' } })
+   * const replayed = await logger.replaySpool()
+   * console.log(`Replayed ${replayed} logs`)
    * ```
    */
-  async processError(
-    error: Error,
-    body: Record<string, unknown>
-  ): Promise<void> {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error'
+  async replaySpool(): Promise<number> {
+    if (!this.spool) {
+      return 0
+    }
 
-    // Check for mapping errors
-    if (
-      errorMessage.includes('mapper_parsing_exception') ||
-      errorMessage.includes('mapping_exception')
-    ) {
-      console.error('OpenSearch mapping error:', errorMessage)
-      console.log('🔄 Attempting to fix index mapping...')
+    const replayed = await this.spool.replay(async (entries) => {
+      const failures = await this.sendBulk(
+        entries.map((entry) => ({ ...entry, attempts: 0, size: 0 }))
+      )
+      await this.deadLetterDocuments(
+        failures
+          .filter((failure) => !failure.retryable)
+          .map(({ document, error, status }) => ({
+            index: document.index,
+            body: document.body,
+            reason: error,
+            status,
+          }))
+      )
 
-      const mappingResult = await this.checkAndFixIndexMapping()
-      if (mappingResult.success) {
-        // Retry the log operation
-        try {
-          await this.client.index({
-            index: this.index,
-            body,
+      return failures
+        .filter((failure) => failure.retryable)
+        .map(({ document }) => ({ index: document.index, body: document.body }))
+    })
+
+    if (replayed > 0) {
+      console.info(`Replayed ${replayed} spooled logs to OpenSearch`)
+    }
+    return replayed
+  }
+
+  /**
+   * Replays the documents stored in the dead letter
+   *
+   * This method re-ingests rejected documents into their original index,
+   * typically after the mapping has been fixed. Replayed documents are
+   * removed from the dead-letter index or file; documents rejected again
+   * stay there for a later attempt.
+   *
+   * @param options - Optional target index filter and batch size
+   * @returns Promise<DeadLetterReplayResult> - The number of documents replayed and still rejected
+   *
+   * @example
+   * ```typescript
+   * const logger = new ElasticLogger({ ...config, deadLetter: true })
+   * await logger.migrateIndex()
+   * const result = await logger.replayDeadLetters({ targetIndex: 'application-logs' })
+   * console.log(`Replayed ${result.replayed}, still failing ${result.failed}`)
+   * ```
+   */
+  async replayDeadLetters(
+    options: ReplayDeadLettersOptions = {}
+  ): Promise<DeadLetterReplayResult> {
+    if (!this.deadLetter) {
+      throw new Error('Dead letter is not configured for this logger')
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_DEAD_LETTER_BATCH_SIZE
+    const result = this.deadLetter.file
+      ? await this.replayDeadLetterFile(
+          this.deadLetter.file,
+          batchSize,
+          options.targetIndex
+        )
+      : await this.replayDeadLetterIndex(
+          this.deadLetter.index,
+          batchSize,
+          options.targetIndex
+        )
+
+    if (result.replayed > 0) {
+      console.info(`Replayed ${result.replayed} dead-letter logs to OpenSearch`)
+    }
+    return result
+  }
+
+  /**
+   * Replays the documents stored in the dead-letter index
+   *
+   * This method pages through the dead-letter index oldest first, deleting
+   * each dead letter once its document has been indexed. Dead letters that
+   * fail again are skipped by the following pages.
+   *
+   * @param index - The dead-letter index
+   * @param batchSize - The number of dead letters per page
+   * @param targetIndex - Only replay documents meant for this index
+   * @returns Promise<DeadLetterReplayResult> - The number of documents replayed and still rejected
+   */
+  private async replayDeadLetterIndex(
+    index: string,
+    batchSize: number,
+    targetIndex?: string
+  ): Promise<DeadLetterReplayResult> {
+    const result: DeadLetterReplayResult = { replayed: 0, failed: 0 }
+    let from = 0
+
+    for (;;) {
+      let hits: OpenSearchHit[]
+      try {
+        const response = (await this.client.search({
+          index,
+          body: {
+            from,
+            size: batchSize,
+            sort: [{ timestamp: { order: 'asc' } }],
+            query: targetIndex
+              ? { match_phrase: { targetIndex } }
+              : { match_all: {} },
+          },
+        })) as OpenSearchResponse
+        hits = response.body.hits.hits
+      } catch (error) {
+        // Nothing was ever rejected
+        if (getStatusCode(error) === 404) break
+        throw error
+      }
+
+      // match_phrase also matches longer index names, so filter exactly
+      const selected = hits.filter(
+        (hit) => !targetIndex || hit._source['targetIndex'] === targetIndex
+      )
+      const delivered = await this.resendDeadLetters(
+        selected.map((hit) => hit._source as unknown as DeadLetterEntry)
+      )
+      const done = selected.filter((_, position) => delivered[position])
+
+      if (done.length > 0) {
+        await this.client.bulk({
+          body: done.map((hit) => ({
+            delete: { _index: hit._index, _id: hit._id },
+          })),
+        })
+        await this.client.indices.refresh({ index })
+      }
+
+      result.replayed += done.length
+      result.failed += selected.length - done.length
+      from += hits.length - done.length
+
+      if (hits.length < batchSize) break
+    }
+
+    return result
+  }
+
+  /**
+   * Replays the documents stored in the dead-letter file
+   *
+   * This method moves the file aside while replaying, so rejected documents
+   * logged in the meantime go to a new file, then appends the dead letters
+   * that were not replayed back to it.
+   *
+   * @param file - The dead-letter file
+   * @param batchSize - The number of dead letters per bulk request
+   * @param targetIndex - Only replay documents meant for this index
+   * @returns Promise<DeadLetterReplayResult> - The number of documents replayed and still rejected
+   */
+  private async replayDeadLetterFile(
+    file: string,
+    batchSize: number,
+    targetIndex?: string
+  ): Promise<DeadLetterReplayResult> {
+    const replaying = `${file}.replaying`
+    try {
+      await rename(file, replaying)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { replayed: 0, failed: 0 }
+      }
+      throw error
+    }
+
+    const lines = (await readFile(replaying, 'utf8'))
+      .split('\n')
+      .filter((line) => line.trim())
+    const result: DeadLetterReplayResult = { replayed: 0, failed: 0 }
+    const kept: string[] = []
+    let start = 0
+
+    try {
+      for (; start < lines.length; start += batchSize) {
+        const batch = lines.slice(start, start + batchSize)
+        const selected: { line: string; entry: DeadLetterEntry }[] = []
+
+        for (const line of batch) {
+          const entry = this.parseDeadLetter(line)
+          if (entry && (!targetIndex || entry.targetIndex === targetIndex)) {
+            selected.push({ line, entry })
+          } else {
+            kept.push(line)
+          }
+        }
+
+        const delivered = await this.resendDeadLetters(
+          selected.map(({ entry }) => entry)
+        )
+        selected.forEach(({ line }, position) => {
+          if (delivered[position]) {
+            result.replayed++
+          } else {
+            result.failed++
+            kept.push(line)
+          }
+        })
+      }
+    } catch (error) {
+      kept.push(...lines.slice(start))
+      throw error
+    } finally {
+      if (kept.length > 0) {
+        await appendFile(file, kept.map((line) => `${line}\n`).join(''))
+      }
+      await unlink(replaying)
+    }
+
+    return result
+  }
+
+  /**
+   * Parses a line of the dead-letter file
+   *
+   * @param line - The NDJSON line
+   * @returns DeadLetterEntry | undefined - The dead letter, or undefined if the line is corrupt
+   */
+  private parseDeadLetter(line: string): DeadLetterEntry | undefined {
+    try {
+      return JSON.parse(line) as DeadLetterEntry
+    } catch {
+      console.warn('Skipping corrupt line in the dead-letter file')
+      return undefined
+    }
+  }
+
+  /**
+   * Sends dead letters back to their target index
+   *
+   * This method indexes the original payloads in a single _bulk request.
+   * Payloads that cannot be parsed are reported as not delivered.
+   *
+   * @param entries - The dead letters to replay
+   * @returns Promise<boolean[]> - Whether each dead letter was delivered, in order
+   */
+  private async resendDeadLetters(
+    entries: DeadLetterEntry[]
+  ): Promise<boolean[]> {
+    const delivered = entries.map(() => false)
+    const documents: BufferedDocument[] = []
+    const positions: number[] = []
+
+    entries.forEach((entry, position) => {
+      try {
+        documents.push({
+          index: entry.targetIndex,
+          body: JSON.parse(entry.payload) as Record<string, unknown>,
+          attempts: 0,
+          size: 0,
+        })
+        positions.push(position)
+      } catch {
+        console.warn(
+          `Skipping dead letter with an invalid payload for ${entry.targetIndex}`
+        )
+      }
+    })
+
+    if (documents.length === 0) {
+      return delivered
+    }
+
+    const failed = new Set(
+      (await this.sendBulk(documents)).map((failure) => failure.document)
+    )
+    documents.forEach((document, position) => {
+      if (!failed.has(document)) {
+        delivered[positions[position]!] = true
+      }
+    })
+
+    return delivered
+  }
+
+  /**
+   * Processes an error and logs it to the Elasticsearch/OpenSearch cluster
+   *
+   * This method processes an error and logs it to the Elasticsearch/OpenSearch cluster.
+   * It checks for mapping errors and attempts to fix them; if the document is
+   * still rejected and a dead letter is configured, it is stored there. When
+   * the cluster is unreachable and a spool is configured, the document is
+   * written to the spool instead of being lost.
+   *
+   * @param error - The error to process
+   * @param body - The body to log
+   * @param index - The index the body was meant for (defaults to the main index)
+   * @returns Promise<void> - Returns a promise that resolves when the error is processed
+   *
+   * @example
+   * ```typescript
+   * const logger = new ElasticLogger(config)
+   * await logger.processError(new Error('Mapping error'), { message: 'Test error' })
+   * ```
+   */
+  async processError(
+    error: Error,
+    body: Record<string, unknown>,
+    index: string = this.index
+  ): Promise<void> {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+
+    const isConnectionError = this.isConnectionFailure(error)
+
+    // Keep documents on disk while the cluster cannot be reached, or while
+    // migrateIndex has made the index read-only
+    if (
+      this.spool &&
+      (isConnectionError ||
+        error instanceof CircuitOpenError ||
+        this.isWriteBlocked(error)) &&
+      (await this.spoolDocuments([{ index, body }])) > 0
+    ) {
+      return
+    }
+
+    // Check for mapping errors
+    if (
+      errorMessage.includes('mapper_parsing_exception') ||
+      errorMessage.includes('mapping_exception')
+    ) {
+      console.error('OpenSearch mapping error:', errorMessage)
+      console.log('🔄 Attempting to fix index mapping...')
+
+      const mappingResult = await this.checkAndFixIndexMapping()
+      if (mappingResult.success) {
+        // Retry the log operation
+        try {
+          await this.client.index({
+            index,
+            body,
+            ...this.getOpType(),
           })
           console.log('✅ Log message sent successfully after fixing mapping')
           return
         } catch (retryError) {
           console.error('❌ Retry failed after mapping fix:', retryError)
-          throw new Error(
-            `Mapping fix failed. You may need to recreate the index. Details: ${errorMessage}`
-          )
         }
-      } else {
+      }
+
+      // Keep the rejected document for replayDeadLetters
+      if (
+        (await this.deadLetterDocuments([
+          { index, body, reason: errorMessage },
+        ])) > 0
+      ) {
+        return
+      }
+
+      if (mappingResult.success) {
         throw new Error(
-          `Mapping error detected but could not be fixed: ${mappingResult.error}`
+          `Mapping fix failed. You may need to recreate the index. Details: ${errorMessage}`
         )
       }
+      throw new Error(
+        `Mapping error detected but could not be fixed: ${mappingResult.error}`
+      )
     }
 
     // Check for authentication/authorization errors
@@ -443,11 +1380,7 @@ export class ElasticLogger {
     }
 
     // Check for connection errors
-    if (
-      errorMessage.includes('ECONNREFUSED') ||
-      errorMessage.includes('ENOTFOUND') ||
-      errorMessage.includes('timeout')
-    ) {
+    if (isConnectionError) {
       console.error('OpenSearch connection error:', errorMessage)
       throw new Error(
         `Cannot connect to OpenSearch. Please check your connection settings. Details: ${errorMessage}`
@@ -458,6 +1391,44 @@ export class ElasticLogger {
     throw new Error(`Failed to log to Elasticsearch: ${errorMessage}`)
   }
 
+  /**
+   * Checks whether an error means the cluster could not be reached
+   *
+   * This method recognises the connection, timeout and no-living-connection
+   * errors of the OpenSearch client, and raw socket errors by their code.
+   *
+   * @param error - The error thrown by the client
+   * @returns boolean - True if the request never reached the cluster or timed out
+   */
+  private isConnectionFailure(error: unknown): boolean {
+    return (
+      error instanceof errors.ConnectionError ||
+      error instanceof errors.TimeoutError ||
+      error instanceof errors.NoLivingConnectionsError ||
+      // Socket errors raised before the client wraps them in a ConnectionError
+      isNetworkError(error)
+    )
+  }
+
+  /**
+   * Checks whether a write was refused because the index is read-only
+   *
+   * This method recognises the write block `migrateIndex` sets while it
+   * replaces a concrete index with an alias.
+   *
+   * @param error - The error thrown by the client
+   * @returns boolean - True for a `cluster_block_exception`
+   */
+  private isWriteBlocked(error: unknown): boolean {
+    const type = (error as { meta?: { body?: { error?: { type?: unknown } } } })
+      ?.meta?.body?.error?.type
+
+    return (
+      type === WRITE_BLOCK_ERROR ||
+      (error instanceof Error && error.message.includes(WRITE_BLOCK_ERROR))
+    )
+  }
+
   /**
    * Tests the connection and authentication to the Elasticsearch/OpenSearch cluster
    *
@@ -555,6 +1526,296 @@ export class ElasticLogger {
     }
   }
 
+  /**
+   * Installs the index templates and retention policies for the logger
+   *
+   * This method installs versioned composable index templates with typed
+   * mappings for the system, transactions and (when stored in an index)
+   * dead-letter indices, matching the `indexStrategy`. With `retentionDays`
+   * it also installs ISM policies that delete time-based indices, or data
+   * stream backing indices, once they are older than that.
+   *
+   * It is idempotent: templates and policies that are already up to date are
+   * left alone, and ones not managed by this package or installed with a
+   * newer version are skipped. Templates only apply to indices created
+   * afterwards.
+   *
+   * @param options - Template version, shards, replicas and retention
+   * @returns Promise<IndexInfrastructureResult> - What was created, updated, unchanged or skipped
+   *
+   * @example
+   * ```typescript
+   * const logger = new ElasticLogger({ ...config, indexStrategy: 'daily' })
+   * const result = await logger.ensureIndexInfrastructure({
+   *   version: 2,
+   *   replicas: 1,
+   *   retentionDays: 30,
+   *   transactionRetentionDays: 90,
+   * })
+   * console.log(result.changes)
+   * ```
+   */
+  async ensureIndexInfrastructure(
+    options: IndexInfrastructureOptions = {}
+  ): Promise<IndexInfrastructureResult> {
+    const version = options.version ?? DEFAULT_INFRASTRUCTURE_OPTIONS.version
+    const shards = options.shards ?? DEFAULT_INFRASTRUCTURE_OPTIONS.shards
+    const replicas = options.replicas ?? DEFAULT_INFRASTRUCTURE_OPTIONS.replicas
+    const dataStream = this.indexStrategy === 'data-stream'
+    const transactionsIndex = `${this.index}-transactions`
+    const deadLetterIndex =
+      this.deadLetter && !this.deadLetter.file
+        ? this.deadLetter.index
+        : undefined
+
+    // Transactions and dead letters share the prefix of the main index, so
+    // their templates and policies need a higher priority to win
+    const templates: IndexTemplateSpec[] = [
+      {
+        name: this.index,
+        indexPatterns: this.getTemplatePatterns(this.index),
+        properties: SYSTEM_LOG_PROPERTIES,
+        priority: 100,
+        version,
+        shards,
+        replicas,
+        dataStream,
+      },
+      {
+        name: transactionsIndex,
+        indexPatterns: this.getTemplatePatterns(transactionsIndex),
+        properties: TRANSACTION_LOG_PROPERTIES,
+        priority: 200,
+        version,
+        shards,
+        replicas,
+        dataStream,
+      },
+    ]
+    if (deadLetterIndex) {
+      templates.push({
+        name: deadLetterIndex,
+        indexPatterns: [deadLetterIndex],
+        properties: DEAD_LETTER_PROPERTIES,
+        priority: 300,
+        version,
+        shards,
+        replicas,
+      })
+    }
+
+    const policies: RetentionPolicySpec[] = []
+    const skipped: InfrastructureChange[] = []
+
+    // A fixed index is never rolled over, so deleting it by age would delete
+    // every log at once
+    if (options.retentionDays && this.indexStrategy === 'fixed') {
+      skipped.push({
+        kind: 'ism-policy',
+        name: `${this.index}-retention`,
+        action: 'skipped',
+        reason: 'Retention needs a time-based or data-stream index strategy',
+      })
+    } else if (options.retentionDays) {
+      const rollover = dataStream && {
+        rolloverAfter:
+          options.rolloverAfter || DEFAULT_INFRASTRUCTURE_OPTIONS.rolloverAfter,
+      }
+      policies.push(
+        {
+          id: `${this.index}-retention`,
+          indexPatterns: this.getPolicyPatterns(this.index),
+          priority: 100,
+          version,
+          retentionDays: options.retentionDays,
+          ...rollover,
+        },
+        {
+          id: `${transactionsIndex}-retention`,
+          indexPatterns: this.getPolicyPatterns(transactionsIndex),
+          priority: 200,
+          version,
+          retentionDays:
+            options.transactionRetentionDays ?? options.retentionDays,
+          ...rollover,
+        }
+      )
+      // Dead letters are kept until they are replayed
+      if (deadLetterIndex && !dataStream) {
+        policies.push({
+          id: `${deadLetterIndex}-retention`,
+          indexPatterns: [deadLetterIndex],
+          priority: 300,
+          version,
+        })
+      }
+    }
+
+    const changes: InfrastructureChange[] = []
+    try {
+      for (const spec of templates) {
+        changes.push(await this.ensureIndexTemplate(spec))
+      }
+      for (const spec of policies) {
+        changes.push(await this.ensureRetentionPolicy(spec))
+      }
+      changes.push(...skipped)
+    } catch (error) {
+      console.error('Failed to ensure index infrastructure:', error)
+      throw new Error(
+        `Failed to ensure index infrastructure: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    return {
+      changed: changes.some(
+        (change) => change.action === 'created' || change.action === 'updated'
+      ),
+      changes,
+    }
+  }
+
+  /**
+   * Gets the index patterns a template applies to
+   *
+   * @param base - The main or transactions index name
+   * @returns string[] - The index and its `migrateIndex` versions, the data stream name, or a wildcard for time-based indices
+   */
+  private getTemplatePatterns(base: string): string[] {
+    switch (this.indexStrategy) {
+      case 'fixed':
+        return [base, `${base}-v*`]
+      case 'data-stream':
+        return [base]
+      default:
+        return [`${base}-*`]
+    }
+  }
+
+  /**
+   * Gets the index patterns a retention policy applies to
+   *
+   * @param base - The main or transactions index name
+   * @returns string[] - The backing indices of a data stream, or the time-based indices
+   */
+  private getPolicyPatterns(base: string): string[] {
+    return this.indexStrategy === 'data-stream'
+      ? [`.ds-${base}-*`]
+      : [`${base}-*`]
+  }
+
+  /**
+   * Creates or updates a composable index template
+   *
+   * This method compares the installed template with the one built from
+   * `spec` and only writes it when it is missing or different.
+   *
+   * @param spec - The template to install
+   * @returns Promise<InfrastructureChange> - What happened to the template
+   */
+  private async ensureIndexTemplate(
+    spec: IndexTemplateSpec
+  ): Promise<InfrastructureChange> {
+    const body = buildIndexTemplate(spec)
+    const change = { kind: 'index-template' as const, name: spec.name }
+
+    let existing: IndexTemplateLike | undefined
+    try {
+      const response = await this.client.indices.getIndexTemplate({
+        name: spec.name,
+      })
+      existing = response.body['index_templates']?.[0]?.index_template
+    } catch (error) {
+      if (getStatusCode(error) !== 404) throw error
+    }
+
+    if (existing) {
+      if (existing._meta?.managed_by !== MANAGED_BY) {
+        return {
+          ...change,
+          action: 'skipped',
+          reason: `Not managed by ${MANAGED_BY}`,
+        }
+      }
+      if ((existing.version ?? 0) > body.version) {
+        return {
+          ...change,
+          action: 'skipped',
+          reason: `Version ${existing.version} is already installed`,
+        }
+      }
+      if (existing._meta.hash === body._meta.hash) {
+        return { ...change, action: 'unchanged' }
+      }
+    }
+
+    await this.client.indices.putIndexTemplate({ name: spec.name, body })
+    return { ...change, action: existing ? 'updated' : 'created' }
+  }
+
+  /**
+   * Creates or updates an ISM policy
+   *
+   * This method compares the description of the installed policy, which
+   * records its version and a hash of its states, and only writes the policy
+   * when it is missing or different. Updates use the sequence number of the
+   * installed policy so concurrent changes are not overwritten.
+   *
+   * @param spec - The policy to install
+   * @returns Promise<InfrastructureChange> - What happened to the policy
+   */
+  private async ensureRetentionPolicy(
+    spec: RetentionPolicySpec
+  ): Promise<InfrastructureChange> {
+    const body = buildRetentionPolicy(spec)
+    const change = { kind: 'ism-policy' as const, name: spec.id }
+    const path = `/_plugins/_ism/policies/${encodeURIComponent(spec.id)}`
+
+    let existing: IsmPolicyLike | undefined
+    try {
+      existing = (await this.client.transport.request({ method: 'GET', path }))
+        .body as IsmPolicyLike
+    } catch (error) {
+      if (getStatusCode(error) !== 404) throw error
+    }
+
+    if (existing) {
+      const description = existing.policy?.description || ''
+      const installedVersion = Number(/\(v(\d+),/.exec(description)?.[1] ?? 0)
+
+      if (!description.startsWith(`Managed by ${MANAGED_BY}`)) {
+        return {
+          ...change,
+          action: 'skipped',
+          reason: `Not managed by ${MANAGED_BY}`,
+        }
+      }
+      if (installedVersion > spec.version) {
+        return {
+          ...change,
+          action: 'skipped',
+          reason: `Version ${installedVersion} is already installed`,
+        }
+      }
+      if (description === body.policy.description) {
+        return { ...change, action: 'unchanged' }
+      }
+    }
+
+    await this.client.transport.request({
+      method: 'PUT',
+      path,
+      body,
+      ...(existing && {
+        querystring: {
+          if_seq_no: existing._seq_no,
+          if_primary_term: existing._primary_term,
+        },
+      }),
+    })
+    return { ...change, action: existing ? 'updated' : 'created' }
+  }
+
   /**
    * Checks and fixes the index mapping
    *
@@ -578,6 +1839,15 @@ export class ElasticLogger {
         index: this.index,
       })
 
+      if (!indexExists.body && this.indexStrategy === 'fixed') {
+        // Create the first versioned index behind the write alias
+        const migration = await this.migrateIndex()
+        console.log(
+          `✅ Created index ${migration.index} behind alias ${this.index}`
+        )
+        return { success: true }
+      }
+
       if (!indexExists.body) {
         // Create index with proper mapping
         await this.client.indices.create({
@@ -607,7 +1877,9 @@ export class ElasticLogger {
       const mapping = await this.client.indices.getMapping({
         index: this.index,
       })
-      const properties = mapping.body[this.index].mappings.properties
+      // Keyed by the concrete index when `this.index` is an alias
+      const [current] = Object.values(mapping.body)
+      const properties = current?.mappings?.properties || {}
 
       // Check if message field has correct type
       if (properties.message && properties.message.type !== 'text') {
@@ -635,7 +1907,7 @@ export class ElasticLogger {
               : 'Unknown error'
           return {
             success: false,
-            error: `Cannot update mapping. You may need to recreate the index. Details: ${errorMsg}`,
+            error: `Cannot update mapping. Run migrateIndex to move the logs to an index with the correct mapping. Details: ${errorMsg}`,
           }
         }
       }
@@ -652,50 +1924,315 @@ export class ElasticLogger {
   }
 
   /**
-   * Recreates the index
+   * Moves the logs to a new index with a corrected mapping, without downtime
    *
-   * This method recreates the index to ensure that the index is properly configured.
+   * This method creates the next versioned index (`<alias>-v<n>`) with the
+   * corrected mapping, reindexes the existing documents into it (optionally
+   * through a transform script), and swaps the alias in one atomic request.
+   * The logger always writes and searches through the alias, so logging
+   * continues during the migration. Documents written to the old index while
+   * the reindex ran are copied after the swap.
+   *
+   * The old index is kept until the swap is confirmed, and afterwards unless
+   * `deleteOldIndex` is set. If the migration fails before the swap, the new
+   * index is deleted and the alias is left as it was. Without an existing
+   * index, this creates the first version and the alias.
+   *
+   * A concrete index that has the alias name is converted: it is made
+   * read-only while the last documents are copied, cloned to `<alias>-v0`
+   * to keep its documents, and replaced by the alias. Writes from this
+   * logger wait for the swap meanwhile; writes from other processes that hit
+   * the write block are retried, then spooled.
+   *
+   * @param options - Target, mapping, settings, transform script and clean-up
+   * @returns Promise<IndexMigrationResult> - The new index and the number of documents copied
    *
-   * @returns Promise<{ success: boolean; error?: string }> - Returns a promise that resolves to an object containing the success status and any error message
    * @example
    * ```typescript
    * const logger = new ElasticLogger(config)
-   * const recreateResult = await logger.recreateIndex()
-   * console.log(recreateResult)
+   * const result = await logger.migrateIndex({
+   *   script: {
+   *     source: 'ctx._source.level = ctx._source.level.toLowerCase()',
+   *   },
+   *   deleteOldIndex: true,
+   * })
+   * console.log(`${result.alias} now points to ${result.index}`)
    * ```
    */
-  async recreateIndex(): Promise<{ success: boolean; error?: string }> {
+  async migrateIndex(
+    options: IndexMigrationOptions = {}
+  ): Promise<IndexMigrationResult> {
+    if (this.indexStrategy !== 'fixed') {
+      throw new Error(
+        'Index migration needs the fixed index strategy; time-based indices and data streams take new mappings from their index templates'
+      )
+    }
+
+    const transactions = options.target === 'transactions'
+    const alias = transactions ? `${this.index}-transactions` : this.index
+    const created: string[] = []
+    let swapped = false
+
     try {
-      // Delete index if exists
-      const indexExists = await this.client.indices.exists({
-        index: this.index,
-      })
-      if (indexExists.body) {
-        await this.client.indices.delete({ index: this.index })
-        console.log(`🗑️ Deleted existing index ${this.index}`)
-      }
+      const { indices: currentIndices, concrete } =
+        await this.getAliasIndices(alias)
+      const version =
+        Math.max(
+          0,
+          ...currentIndices.map((name) => getIndexVersion(alias, name))
+        ) + 1
+      const index = `${alias}-v${version}`
 
-      // Create new index with proper mapping
       await this.client.indices.create({
-        index: this.index,
+        index,
         body: {
-          mappings: {
-            properties: {
-              timestamp: { type: 'date' },
-              level: { type: 'keyword' },
-              service: { type: 'keyword' },
-              message: { type: 'text' },
-              meta: { type: 'object', dynamic: true },
+          settings: options.settings || {
+            index: {
+              number_of_shards: DEFAULT_INFRASTRUCTURE_OPTIONS.shards,
+              number_of_replicas: DEFAULT_INFRASTRUCTURE_OPTIONS.replicas,
             },
           },
-          settings: {
-            number_of_shards: 1,
-            number_of_replicas: 0,
-          },
+          mappings:
+            options.mappings ||
+            buildIndexMappings(
+              transactions ? TRANSACTION_LOG_PROPERTIES : SYSTEM_LOG_PROPERTIES
+            ),
         },
       })
+      created.push(index)
+      console.log(`✅ Created index ${index}`)
+
+      let reindexed = 0
+      let caughtUp = 0
+      if (currentIndices.length > 0) {
+        reindexed = await this.reindexInto(currentIndices, index, options)
+      }
+
+      const previousIndices = concrete ? [`${alias}-v0`] : currentIndices
+      if (concrete) {
+        caughtUp = await this.replaceWithAlias(alias, index, options, (name) =>
+          created.push(name)
+        )
+      } else {
+        await this.client.indices.updateAliases({
+          body: {
+            actions: [
+              ...currentIndices.map((name) => ({
+                remove: { index: name, alias },
+              })),
+              { add: { index, alias, is_write_index: true } },
+            ],
+          },
+        })
+      }
+      swapped = true
+
+      const current = await this.getAliasIndices(alias)
+      if (current.concrete || current.indices.join(',') !== index) {
+        throw new Error(
+          `Alias ${alias} points to ${current.indices.join(', ') || 'nothing'} instead of ${index}`
+        )
+      }
+      console.log(`🔀 Alias ${alias} now points to ${index}`)
+
+      if (!concrete && previousIndices.length > 0) {
+        caughtUp = await this.reindexInto(previousIndices, index, options, true)
+      }
+
+      const deleteOld = !!options.deleteOldIndex && previousIndices.length > 0
+      if (deleteOld) {
+        await this.client.indices.delete({ index: previousIndices })
+        console.log(`🗑️ Deleted old index ${previousIndices.join(', ')}`)
+      }
+
+      return {
+        alias,
+        index,
+        previousIndices,
+        reindexed,
+        caughtUp,
+        deletedOldIndices: deleteOld,
+      }
+    } catch (error) {
+      // Nothing reads from the new index or the clone before the swap
+      if (!swapped && created.length > 0) {
+        await this.client.indices
+          .delete({ index: created })
+          .catch(() => undefined)
+      }
+      console.error('Failed to migrate index:', error)
+      throw new Error(
+        `Failed to migrate index ${alias}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Replaces a concrete index with an alias of the same name
+   *
+   * This method makes the index read-only, copies the documents written
+   * since the first reindex, and clones the index to `<alias>-v0` so its
+   * documents are kept after the swap. An alias cannot share its name with
+   * an index, so the index is removed in the same request that creates the
+   * alias. Writes from this logger wait until the swap is done; if it fails,
+   * the write block is lifted again.
+   *
+   * @param alias - The name of the concrete index, and of the alias
+   * @param index - The new index the alias points to
+   * @param options - The transform script and poll interval
+   * @param onCreated - Called with the clone once it exists
+   * @returns Promise<number> - The number of documents copied after the write block
+   */
+  private async replaceWithAlias(
+    alias: string,
+    index: string,
+    options: IndexMigrationOptions,
+    onCreated: (name: string) => void
+  ): Promise<number> {
+    const backup = `${alias}-v0`
+    let release: () => void = () => undefined
+    this.heldWrites.set(
+      alias,
+      new Promise<void>((resolve) => (release = resolve))
+    )
+
+    try {
+      await this.setWriteBlock(alias, true)
+      try {
+        const caughtUp = await this.reindexInto([alias], index, options, true)
+
+        // Cloning needs the write block, and the clone keeps it
+        await this.client.indices.clone({ index: alias, target: backup })
+        onCreated(backup)
+
+        await this.client.indices.updateAliases({
+          body: {
+            actions: [
+              { add: { index, alias, is_write_index: true } },
+              { remove_index: { index: alias } },
+            ],
+          },
+        })
+        return caughtUp
+      } catch (error) {
+        await this.setWriteBlock(alias, false).catch(() => undefined)
+        throw error
+      }
+    } finally {
+      this.heldWrites.delete(alias)
+      release()
+    }
+  }
+
+  /**
+   * Gets the indices behind an alias
+   *
+   * @param alias - The alias name
+   * @returns Promise<{ indices: string[]; concrete: boolean }> - The indices, or the index itself when a concrete index has the alias name
+   */
+  private async getAliasIndices(
+    alias: string
+  ): Promise<{ indices: string[]; concrete: boolean }> {
+    try {
+      const response = await this.client.indices.getAlias({ name: alias })
+      return { indices: Object.keys(response.body).sort(), concrete: false }
+    } catch (error) {
+      if (getStatusCode(error) !== 404) throw error
+    }
+
+    const exists = await this.client.indices.exists({ index: alias })
+    return exists.body
+      ? { indices: [alias], concrete: true }
+      : { indices: [], concrete: false }
+  }
+
+  /**
+   * Copies documents into an index and waits for the reindex task
+   *
+   * This method runs the reindex as a task and polls it, so large indices
+   * do not hit the request timeout. With `missingOnly`, documents that were
+   * already copied are left alone.
+   *
+   * @param sources - The indices to copy from
+   * @param index - The index to copy to
+   * @param options - The transform script and poll interval
+   * @param missingOnly - Whether to copy only documents missing from `index`
+   * @returns Promise<number> - The number of documents created
+   */
+  private async reindexInto(
+    sources: string[],
+    index: string,
+    options: IndexMigrationOptions,
+    missingOnly = false
+  ): Promise<number> {
+    const response = await this.client.reindex({
+      wait_for_completion: false,
+      refresh: true,
+      body: {
+        ...(missingOnly && { conflicts: 'proceed' }),
+        source: { index: sources },
+        dest: { index, ...(missingOnly && { op_type: 'create' }) },
+        ...(options.script && {
+          script: { lang: 'painless', ...options.script },
+        }),
+      },
+    })
+    const taskId = String(response.body['task'])
+
+    for (;;) {
+      const { body: task } = await this.client.tasks.get({ task_id: taskId })
+
+      if (task['completed']) {
+        if (task['error']) {
+          throw new Error(task['error'].reason || 'Reindex task failed')
+        }
+
+        const failures = task['response']?.failures || []
+        if (failures.length > 0) {
+          throw new Error(
+            `${failures.length} documents failed to reindex into ${index}: ${failures[0].cause?.reason || 'Unknown error'}`
+          )
+        }
+        return task['response']?.created || 0
+      }
 
-      console.log(`✅ Recreated index ${this.index} with proper mapping`)
+      await delay(options.pollIntervalMs ?? DEFAULT_MIGRATION_POLL_INTERVAL_MS)
+    }
+  }
+
+  /**
+   * Blocks or allows writes to an index
+   *
+   * @param index - The index name
+   * @param blocked - Whether writes are blocked
+   * @returns Promise<void>
+   */
+  private async setWriteBlock(index: string, blocked: boolean): Promise<void> {
+    await this.client.indices.putSettings({
+      index,
+      body: { index: { blocks: { write: blocked } } },
+    })
+  }
+
+  /**
+   * Recreates the index
+   *
+   * This method moves the logs to a new index with the current mapping. It
+   * no longer deletes the index; it runs `migrateIndex` and keeps the old
+   * index.
+   *
+   * @deprecated Use `migrateIndex`, which reports what was copied
+   * @returns Promise<{ success: boolean; error?: string }> - Returns a promise that resolves to an object containing the success status and any error message
+   * @example
+   * ```typescript
+   * const logger = new ElasticLogger(config)
+   * const recreateResult = await logger.recreateIndex()
+   * console.log(recreateResult)
+   * ```
+   */
+  async recreateIndex(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.migrateIndex()
       return { success: true }
     } catch (error) {
       const errorMessage =
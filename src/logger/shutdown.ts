@@ -0,0 +1,58 @@
+import { ElasticLogger } from './index'
+import { ShutdownOptions } from './types'
+
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']
+
+/**
+ * Closes loggers when the process receives a termination signal, so the
+ * last logs and transactions are sent before a pod or task is stopped.
+ *
+ * On the first signal every logger is closed with `timeoutMs`. If no other
+ * listener handles the signal, it is then raised again so the process exits
+ * the way it would have without this helper. Applications with their own
+ * shutdown handler keep control of when the process exits.
+ *
+ * @param {ElasticLogger | ElasticLogger[]} loggers - The loggers to close.
+ * @param {ShutdownOptions} [options] - The signals to handle and the close timeout.
+ * @returns {() => void} A function that removes the signal handlers.
+ *
+ * @example
+ * ```typescript
+ * const logger = new ElasticLogger(config)
+ *
+ * closeOnShutdown(logger, { timeoutMs: 5000 })
+ * ```
+ */
+export function closeOnShutdown(
+  loggers: ElasticLogger | ElasticLogger[],
+  options: ShutdownOptions = {}
+): () => void {
+  const targets = Array.isArray(loggers) ? loggers : [loggers]
+  const signals = options.signals || DEFAULT_SHUTDOWN_SIGNALS
+
+  const unregister = () => {
+    signals.forEach((signal) => process.off(signal, handler))
+  }
+
+  const handler = (signal: NodeJS.Signals) => {
+    unregister()
+    console.info(`Received ${signal}, closing loggers`)
+
+    void Promise.allSettled(
+      targets.map((logger) =>
+        logger.close({
+          ...(options.timeoutMs !== undefined && {
+            timeoutMs: options.timeoutMs,
+          }),
+        })
+      )
+    ).then(() => {
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal)
+      }
+    })
+  }
+
+  signals.forEach((signal) => process.on(signal, handler))
+  return unregister
+}
@@ -0,0 +1,393 @@
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from 'fs/promises'
+import { join } from 'path'
+import { SpoolConfig, SpoolEntry, SpoolStats } from './types'
+
+const DEFAULT_SPOOL_CONFIG = {
+  maxSegmentBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 100 * 1024 * 1024,
+  replayBatchSize: 500,
+}
+
+const SEGMENT_PREFIX = 'spool-'
+const SEGMENT_EXTENSION = '.ndjson'
+
+interface SpoolSegment {
+  name: string
+  bytes: number
+}
+
+/**
+ * Sends spooled documents and returns the ones that must stay in the spool.
+ * Throwing stops the replay and keeps the batch.
+ */
+export type SpoolSender = (entries: SpoolEntry[]) => Promise<SpoolEntry[]>
+
+/**
+ * Keeps documents that could not be delivered in append-only NDJSON segment
+ * files, and sends them again in the order they were written.
+ *
+ * A new segment is started when the current one reaches `maxSegmentBytes`.
+ * Once the segments hold `maxTotalBytes`, new documents are refused so a long
+ * outage cannot fill the disk. Segments left by a previous process are picked
+ * up and replayed too.
+ *
+ * A replay sends one segment at a time, oldest first, and deletes it once
+ * every document was accepted. If the cluster fails again, the documents not
+ * yet sent are written back and the replay stops, to continue on the next call.
+ *
+ * @example
+ * ```typescript
+ * const spool = new DiskSpool({ directory: '/var/spool/app-logs' })
+ *
+ * await spool.append([{ index: 'app-logs', body: { message: 'Payment failed' } }])
+ * await spool.replay(async (entries) => {
+ *   await sendBulk(entries)
+ *   return []
+ * })
+ * ```
+ */
+export class DiskSpool {
+  private readonly directory: string
+  private readonly maxSegmentBytes: number
+  private readonly maxTotalBytes: number
+  private readonly replayBatchSize: number
+  private segments: SpoolSegment[] = []
+  private openSegment: SpoolSegment | undefined
+  private loading: Promise<void> | undefined
+  private writing: Promise<unknown> = Promise.resolve()
+  private replaying: Promise<number> | undefined
+  private sequence = 0
+  private spooled = 0
+  private replayed = 0
+  private dropped = 0
+  private lastReplayAt: Date | undefined
+
+  constructor(config: SpoolConfig) {
+    if (!config.directory) {
+      throw new Error('Spool directory is required')
+    }
+
+    this.directory = config.directory
+    this.maxSegmentBytes =
+      config.maxSegmentBytes ?? DEFAULT_SPOOL_CONFIG.maxSegmentBytes
+    this.maxTotalBytes =
+      config.maxTotalBytes ?? DEFAULT_SPOOL_CONFIG.maxTotalBytes
+    this.replayBatchSize =
+      config.replayBatchSize ?? DEFAULT_SPOOL_CONFIG.replayBatchSize
+  }
+
+  /**
+   * Counters describing the spool. Segments from a previous process are
+   * counted once the spool has been loaded by `append`, `hasPending` or `replay`.
+   *
+   * @returns {SpoolStats} The current statistics.
+   */
+  get stats(): SpoolStats {
+    return {
+      segments: this.segments.length,
+      bytes: this.totalBytes(),
+      spooled: this.spooled,
+      replayed: this.replayed,
+      dropped: this.dropped,
+      ...(this.lastReplayAt && { lastReplayAt: this.lastReplayAt }),
+    }
+  }
+
+  /**
+   * Checks whether any documents are waiting to be replayed.
+   *
+   * @returns {Promise<boolean>} A promise that resolves to true if the spool is not empty.
+   */
+  async hasPending(): Promise<boolean> {
+    await this.load()
+    return this.segments.length > 0
+  }
+
+  /**
+   * Appends documents to the open segment, starting a new one when it is full.
+   *
+   * @param {SpoolEntry[]} entries - The documents to keep, with their target index.
+   * @returns {Promise<number>} A promise that resolves to the number of documents written. Documents beyond `maxTotalBytes` are refused.
+   */
+  append(entries: SpoolEntry[]): Promise<number> {
+    return this.serialize(async () => {
+      await this.load()
+      await mkdir(this.directory, { recursive: true })
+
+      let written = 0
+      let refused = 0
+      let chunk = ''
+      let chunkBytes = 0
+      let chunkEntries = 0
+      let segment = this.openSegment
+
+      const writeChunk = async () => {
+        if (!segment || !chunk) return
+
+        await this.writeChunk(segment, chunk, chunkBytes)
+        written += chunkEntries
+        chunk = ''
+        chunkBytes = 0
+        chunkEntries = 0
+      }
+
+      try {
+        for (const entry of entries) {
+          const line = `${JSON.stringify(entry)}\n`
+          const bytes = Buffer.byteLength(line)
+
+          if (this.totalBytes() + chunkBytes + bytes > this.maxTotalBytes) {
+            this.dropped++
+            refused++
+            continue
+          }
+
+          if (
+            !segment ||
+            segment.bytes + chunkBytes + bytes > this.maxSegmentBytes
+          ) {
+            await writeChunk()
+            segment = this.createSegment()
+          }
+
+          chunk += line
+          chunkBytes += bytes
+          chunkEntries++
+        }
+
+        await writeChunk()
+      } finally {
+        this.spooled += written
+      }
+
+      if (refused > 0) {
+        console.warn(
+          `Log spool is full (${this.maxTotalBytes} bytes), refused ${refused} documents`
+        )
+      }
+
+      return written
+    })
+  }
+
+  /**
+   * Waits until every pending append has been written.
+   *
+   * @returns {Promise<void>} A promise that resolves when the spool is idle.
+   */
+  async settled(): Promise<void> {
+    await this.writing.catch(() => undefined)
+  }
+
+  /**
+   * Sends the spooled documents, oldest first. Concurrent calls share the
+   * same replay.
+   *
+   * @param {SpoolSender} send - Sends a batch and returns the documents to keep.
+   * @returns {Promise<number>} A promise that resolves to the number of documents replayed.
+   */
+  replay(send: SpoolSender): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(send).finally(() => {
+        this.replaying = undefined
+      })
+    }
+    return this.replaying
+  }
+
+  /**
+   * Replays the segments that exist when it starts. New appends go to a new
+   * segment so a segment is never written while it is being replayed.
+   */
+  private async runReplay(send: SpoolSender): Promise<number> {
+    const segments = await this.serialize(async () => {
+      await this.load()
+      this.openSegment = undefined
+      return [...this.segments]
+    })
+
+    this.lastReplayAt = new Date()
+    let replayed = 0
+
+    for (const segment of segments) {
+      const entries = await this.readSegment(segment)
+      let position = 0
+      let kept: SpoolEntry[] = []
+
+      try {
+        while (position < entries.length && kept.length === 0) {
+          const batch = entries.slice(position, position + this.replayBatchSize)
+          kept = await send(batch)
+          replayed += batch.length - kept.length
+          position += batch.length
+        }
+      } catch (error) {
+        console.error(
+          'Failed to replay spooled logs:',
+          error instanceof Error ? error.message : 'Unknown error'
+        )
+      }
+
+      const remaining = [...kept, ...entries.slice(position)]
+      if (remaining.length > 0) {
+        await this.rewriteSegment(segment, remaining)
+        break
+      }
+      await this.removeSegment(segment)
+    }
+
+    this.replayed += replayed
+    return replayed
+  }
+
+  /**
+   * Reads the segments left in the directory, once.
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readSegments().catch((error) => {
+        this.loading = undefined
+        throw error
+      })
+    }
+    return this.loading
+  }
+
+  /**
+   * Lists the segment files in the directory, oldest first.
+   */
+  private async readSegments(): Promise<void> {
+    let names: string[]
+    try {
+      names = await readdir(this.directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw error
+    }
+
+    const segmentNames = names
+      .filter(
+        (name) =>
+          name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_EXTENSION)
+      )
+      .sort()
+
+    for (const name of segmentNames) {
+      const { size } = await stat(join(this.directory, name))
+      this.segments.push({ name, bytes: size })
+    }
+  }
+
+  /**
+   * Parses a segment, skipping lines cut short by a crash.
+   */
+  private async readSegment(segment: SpoolSegment): Promise<SpoolEntry[]> {
+    let content: string
+    try {
+      content = await readFile(join(this.directory, segment.name), 'utf8')
+    } catch (error) {
+      // Deleted from outside; there is nothing left to replay
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const entries: SpoolEntry[] = []
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line) as SpoolEntry)
+      } catch {
+        console.warn(`Skipping corrupt line in log spool ${segment.name}`)
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Replaces a segment with the documents that were not replayed.
+   */
+  private async rewriteSegment(
+    segment: SpoolSegment,
+    entries: SpoolEntry[]
+  ): Promise<void> {
+    const path = join(this.directory, segment.name)
+    const content = entries
+      .map((entry) => `${JSON.stringify(entry)}\n`)
+      .join('')
+
+    await writeFile(`${path}.tmp`, content)
+    await rename(`${path}.tmp`, path)
+    segment.bytes = Buffer.byteLength(content)
+  }
+
+  /**
+   * Deletes a fully replayed segment.
+   */
+  private async removeSegment(segment: SpoolSegment): Promise<void> {
+    try {
+      await unlink(join(this.directory, segment.name))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+    this.segments = this.segments.filter((item) => item !== segment)
+  }
+
+  /**
+   * Names a new segment. Names sort in creation order. The segment is only
+   * registered once its first chunk has been written.
+   */
+  private createSegment(): SpoolSegment {
+    const timestamp = String(Date.now()).padStart(13, '0')
+    const sequence = String(this.sequence++).padStart(6, '0')
+
+    return {
+      name: `${SEGMENT_PREFIX}${timestamp}-${sequence}${SEGMENT_EXTENSION}`,
+      bytes: 0,
+    }
+  }
+
+  /**
+   * Appends a chunk to a segment, registering the segment after its first
+   * successful write so a failed write leaves nothing behind.
+   */
+  private async writeChunk(
+    segment: SpoolSegment,
+    chunk: string,
+    bytes: number
+  ): Promise<void> {
+    await appendFile(join(this.directory, segment.name), chunk)
+
+    segment.bytes += bytes
+    if (!this.segments.includes(segment)) {
+      this.segments.push(segment)
+    }
+    this.openSegment = segment
+  }
+
+  /**
+   * Total size of the segments on disk.
+   */
+  private totalBytes(): number {
+    return this.segments.reduce((total, segment) => total + segment.bytes, 0)
+  }
+
+  /**
+   * Runs file operations one at a time so appends keep their order.
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writing.then(operation, operation)
+    this.writing = result.catch(() => undefined)
+    return result
+  }
+}
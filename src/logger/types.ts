@@ -1,4 +1,7 @@
-export interface LoggerConfig {
+import { AwsCredentialOptions } from '../aws/types'
+import { CircuitBreakerOptions, RetryConfig } from '../resilience/types'
+
+export interface LoggerConfig extends AwsCredentialOptions {
   node: string
   authType?: 'aws' | 'basic'
   awsService?: 'es' | 'aoss'
@@ -8,8 +11,177 @@ export interface LoggerConfig {
   service: string
   environment: string
   region: string
+  indexStrategy?: IndexStrategy
+  retryConfig?: RetryConfig
+  circuitBreaker?: CircuitBreakerOptions
+  runtimeMetadata?: boolean
+  buffer?: boolean | BufferConfig
+  spool?: SpoolConfig
+  deadLetter?: boolean | DeadLetterConfig
+}
+
+export interface CloseOptions {
+  timeoutMs?: number
+}
+
+export interface ShutdownOptions extends CloseOptions {
+  signals?: NodeJS.Signals[]
 }
 
+export interface IndexInfrastructureOptions {
+  version?: number
+  shards?: number
+  replicas?: number
+  retentionDays?: number
+  transactionRetentionDays?: number
+  rolloverAfter?: string
+}
+
+export type InfrastructureAction =
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'skipped'
+
+export interface InfrastructureChange {
+  kind: 'index-template' | 'ism-policy'
+  name: string
+  action: InfrastructureAction
+  reason?: string
+}
+
+export interface IndexInfrastructureResult {
+  changed: boolean
+  changes: InfrastructureChange[]
+}
+
+export type MigrationTarget = 'logs' | 'transactions'
+
+export interface ReindexScript {
+  source: string
+  lang?: string
+  params?: Record<string, unknown>
+}
+
+export interface IndexMigrationOptions {
+  target?: MigrationTarget
+  mappings?: Record<string, unknown>
+  settings?: Record<string, unknown>
+  script?: ReindexScript
+  deleteOldIndex?: boolean
+  pollIntervalMs?: number
+}
+
+export interface IndexMigrationResult {
+  alias: string
+  index: string
+  previousIndices: string[]
+  reindexed: number
+  caughtUp: number
+  deletedOldIndices: boolean
+}
+
+export interface DeadLetterConfig {
+  index?: string
+  file?: string
+}
+
+export interface RejectedDocument {
+  index: string
+  body: Record<string, unknown>
+  reason: string
+  status?: number
+}
+
+export interface DeadLetterEntry {
+  timestamp: string
+  service: string
+  environment: string
+  targetIndex: string
+  reason: string
+  status?: number
+  payload: string
+}
+
+export interface ReplayDeadLettersOptions {
+  targetIndex?: string
+  batchSize?: number
+}
+
+export interface DeadLetterReplayResult {
+  replayed: number
+  failed: number
+}
+
+export interface SpoolConfig {
+  directory: string
+  maxSegmentBytes?: number
+  maxTotalBytes?: number
+  replayIntervalMs?: number
+  replayBatchSize?: number
+}
+
+export interface SpoolStats {
+  segments: number
+  bytes: number
+  spooled: number
+  replayed: number
+  dropped: number
+  lastReplayAt?: Date
+}
+
+export interface SpoolEntry {
+  index: string
+  body: Record<string, unknown>
+}
+
+export type BufferDropPolicy = 'drop-newest' | 'drop-oldest' | 'block'
+
+export type BufferDropReason = 'queue-full' | 'rejected' | 'failed'
+
+export interface BufferedDocument {
+  index: string
+  body: Record<string, unknown>
+  attempts: number
+  size: number
+  error?: string
+  status?: number
+}
+
+export interface BulkItemFailure {
+  document: BufferedDocument
+  status: number
+  error: string
+  retryable: boolean
+}
+
+export interface BufferConfig {
+  maxBatchSize?: number
+  maxBatchBytes?: number
+  flushIntervalMs?: number
+  maxQueueSize?: number
+  dropPolicy?: BufferDropPolicy
+  onDrop?: (documents: BufferedDocument[], reason: BufferDropReason) => void
+}
+
+export interface BufferStats {
+  queued: number
+  queuedBytes: number
+  sent: number
+  retried: number
+  dropped: number
+  batches: number
+  lastFlushAt?: Date
+  lastError?: string
+}
+
+export type IndexStrategy =
+  | 'fixed'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'data-stream'
+
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug'
 
 export interface LogTransaction {
@@ -60,3 +232,29 @@ export interface OpenSearchResponse {
     }
   }
 }
+
+export interface OpenSearchBulkItem {
+  status: number
+  error?: {
+    type: string
+    reason?: string
+  }
+}
+
+export interface OpenSearchBulkResponse {
+  body: {
+    errors: boolean
+    items: Record<string, OpenSearchBulkItem>[]
+  }
+}
+
+export interface IndexTemplateLike {
+  version?: number
+  _meta?: { managed_by?: string; hash?: string }
+}
+
+export interface IsmPolicyLike {
+  _seq_no: number
+  _primary_term: number
+  policy?: { description?: string }
+}
@@ -0,0 +1,6 @@
+export interface RedactionOptions {
+  minLength?: number
+  minEntropy?: number
+  minCharClasses?: number
+  excludeKeys?: string[]
+}
@@ -0,0 +1,231 @@
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerStats,
+  CircuitState,
+  CircuitStateListener,
+} from './types'
+import { CircuitOpenError } from './errors'
+
+const DEFAULT_CIRCUIT_OPTIONS = {
+  name: 'default',
+  failureThreshold: 5,
+  resetTimeoutMs: 30 * 1000,
+}
+
+/**
+ * Stops calling a dependency after repeated failures, giving it time to recover.
+ *
+ * The breaker starts `closed`. After `failureThreshold` consecutive failures
+ * it opens, and every call fails immediately with a CircuitOpenError for
+ * `resetTimeoutMs`. Then it becomes `half-open` and lets a single trial call
+ * through: success closes it again, failure opens it for another period.
+ *
+ * Errors for which `isFailure` returns false (by default, none) count as
+ * successful calls, so invalid requests do not open the circuit.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({
+ *   name: 'opensearch',
+ *   failureThreshold: 5,
+ *   resetTimeoutMs: 30 * 1000,
+ *   onStateChange: (state) => console.warn(`OpenSearch circuit is ${state}`),
+ * })
+ *
+ * await breaker.execute(() => client.index({ index: 'logs', body }))
+ * breaker.state // 'closed' | 'open' | 'half-open'
+ * ```
+ */
+export class CircuitBreaker {
+  readonly name: string
+  private readonly failureThreshold: number
+  private readonly resetTimeoutMs: number
+  private readonly isFailure: (error: unknown) => boolean
+  private readonly listeners = new Set<CircuitStateListener>()
+  private currentState: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private totalFailures = 0
+  private totalSuccesses = 0
+  private rejected = 0
+  private openedAt: Date | undefined
+  private trialInFlight = false
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.name = options.name || DEFAULT_CIRCUIT_OPTIONS.name
+    this.failureThreshold =
+      options.failureThreshold ?? DEFAULT_CIRCUIT_OPTIONS.failureThreshold
+    this.resetTimeoutMs =
+      options.resetTimeoutMs ?? DEFAULT_CIRCUIT_OPTIONS.resetTimeoutMs
+    this.isFailure = options.isFailure || (() => true)
+
+    if (this.failureThreshold < 1) {
+      throw new Error('Circuit breaker failure threshold must be at least 1')
+    }
+
+    if (options.onStateChange) {
+      this.listeners.add(options.onStateChange)
+    }
+  }
+
+  /**
+   * The current state. An open circuit reports `half-open` once its reset
+   * timeout has passed.
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.remainingOpenMs() === 0) {
+      return 'half-open'
+    }
+    return this.currentState
+  }
+
+  /**
+   * Counters and timestamps describing the breaker.
+   *
+   * @returns {CircuitBreakerStats} The current statistics.
+   */
+  get stats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      rejected: this.rejected,
+      ...(this.openedAt && {
+        openedAt: this.openedAt,
+        nextAttemptAt: new Date(this.openedAt.getTime() + this.resetTimeoutMs),
+      }),
+    }
+  }
+
+  /**
+   * Runs an operation through the breaker.
+   *
+   * @param {() => Promise<T>} operation - The operation to run.
+   * @returns {Promise<T>} A promise that resolves to the result of the operation.
+   * @throws {CircuitOpenError} If the circuit is open, or a trial call is already running.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.currentState === 'open') {
+      const remaining = this.remainingOpenMs()
+      if (remaining > 0) {
+        this.rejected++
+        throw new CircuitOpenError(this.name, remaining)
+      }
+      this.transition('half-open')
+    }
+
+    const isTrial = this.currentState === 'half-open'
+    if (isTrial) {
+      if (this.trialInFlight) {
+        this.rejected++
+        throw new CircuitOpenError(this.name, 0)
+      }
+      this.trialInFlight = true
+    }
+
+    try {
+      const result = await operation()
+      this.recordSuccess()
+      return result
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure()
+      } else {
+        this.recordSuccess()
+      }
+      throw error
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called whenever the state changes.
+   *
+   * @param {CircuitStateListener} listener - The listener to call with the new and previous state.
+   * @returns {() => void} A function that removes the listener.
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Closes the circuit and clears the failure count.
+   *
+   * @returns {void}
+   */
+  reset(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = undefined
+    this.transition('closed')
+  }
+
+  /**
+   * Clears the failure count and closes the circuit after a trial call.
+   */
+  private recordSuccess(): void {
+    this.totalSuccesses++
+    this.consecutiveFailures = 0
+
+    if (this.currentState !== 'closed') {
+      this.openedAt = undefined
+      this.transition('closed')
+    }
+  }
+
+  /**
+   * Counts a failure and opens the circuit at the threshold or after a failed trial.
+   */
+  private recordFailure(): void {
+    this.totalFailures++
+    this.consecutiveFailures++
+
+    if (
+      this.currentState === 'half-open' ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openedAt = new Date()
+      this.transition('open')
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a trial call through.
+   */
+  private remainingOpenMs(): number {
+    if (!this.openedAt) {
+      return 0
+    }
+    return Math.max(
+      0,
+      this.openedAt.getTime() + this.resetTimeoutMs - Date.now()
+    )
+  }
+
+  /**
+   * Changes the state and notifies listeners, logging listener errors.
+   */
+  private transition(state: CircuitState): void {
+    const previous = this.currentState
+    if (previous === state) {
+      return
+    }
+
+    this.currentState = state
+    for (const listener of this.listeners) {
+      try {
+        listener(state, previous)
+      } catch (error) {
+        console.error(
+          `Circuit ${this.name} state listener failed:`,
+          error instanceof Error ? error.message : 'Unknown error'
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { parseRetryAfter } from './utils'
+
+/**
+ * Error thrown for an unsuccessful HTTP response.
+ *
+ * 408, 425, 429 and 5xx responses are retryable and every other status is
+ * not. A `Retry-After` header is kept in `retryAfterMs` so retries wait as
+ * long as the server asked.
+ *
+ * @example
+ * ```typescript
+ * if (!res.ok) {
+ *   throw HttpError.fromResponse(res)
+ * }
+ * ```
+ */
+export class HttpError extends Error {
+  readonly status: number
+  readonly retryable: boolean
+  readonly retryAfterMs: number | undefined
+
+  constructor(status: number, message?: string, retryAfterMs?: number) {
+    super(message || `HTTP ${status}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.retryable =
+      status === 408 || status === 425 || status === 429 || status >= 500
+    this.retryAfterMs = retryAfterMs
+  }
+
+  /**
+   * Create an error from a fetch response, reading its `Retry-After` header.
+   *
+   * @param {Response} response - The unsuccessful response.
+   * @returns {HttpError} The error.
+   */
+  static fromResponse(response: Response): HttpError {
+    return new HttpError(
+      response.status,
+      `HTTP ${response.status}: ${response.statusText}`,
+      parseRetryAfter(response.headers?.get('retry-after'))
+    )
+  }
+}
+
+/**
+ * Error thrown when a call is rejected because its circuit breaker is open.
+ * It is never retried; `retryAfterMs` tells when the breaker will let a
+ * trial call through.
+ */
+export class CircuitOpenError extends Error {
+  readonly retryable = false
+  readonly retryAfterMs: number
+
+  constructor(name: string, retryAfterMs: number) {
+    super(`Circuit ${name} is open, retry in ${retryAfterMs}ms`)
+    this.name = 'CircuitOpenError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
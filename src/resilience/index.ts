@@ -0,0 +1,221 @@
+import { RetryConfig } from './types'
+import { CircuitOpenError } from './errors'
+import { getRetryAfterMs, getStatusCode, isNetworkError } from './utils'
+
+export { CircuitBreaker } from './circuit-breaker'
+export { HttpError, CircuitOpenError } from './errors'
+export {
+  parseRetryAfter,
+  getStatusCode,
+  getRetryAfterMs,
+  isNetworkError,
+} from './utils'
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  delayMs: 1000,
+}
+
+const DEFAULT_MAX_DELAY_MS = 30 * 1000
+
+/**
+ * Delay for a given number of milliseconds, stopping early if the signal aborts.
+ *
+ * @param {number} ms - The number of milliseconds to delay.
+ * @param {AbortSignal} [signal] - Rejects the delay with the abort reason when aborted.
+ * @returns {Promise<void>} A promise that resolves after the delay.
+ *
+ * @example
+ * ```typescript
+ * await delay(1000)
+ * // Output: A promise that resolves after 1 second
+ * ```
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortReason(signal as AbortSignal))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * The error to reject with when a signal aborts.
+ */
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error('The operation was aborted')
+}
+
+/**
+ * Decide whether an error is worth retrying.
+ *
+ * Errors with a boolean `retryable` property (HttpError, CircuitOpenError,
+ * SlackApiError) decide for themselves. AWS SDK errors marked `$retryable`
+ * (throttling, transient faults) are retried. Otherwise the HTTP status
+ * decides: 408, 425, 429 and 5xx are retried and other statuses are not.
+ * Errors without a status are only retried when they are network failures
+ * (see isNetworkError); parse errors and other bugs fail right away.
+ *
+ * @param {unknown} error - The error thrown by the operation.
+ * @returns {boolean} True if the operation should be retried.
+ *
+ * @example
+ * ```typescript
+ * isRetryableError(new HttpError(503))
+ * // Output: true
+ * isRetryableError(new HttpError(401))
+ * // Output: false
+ * ```
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false
+  }
+
+  const candidate = error as { name?: unknown; retryable?: unknown }
+  if (candidate.name === 'AbortError' || error instanceof CircuitOpenError) {
+    return false
+  }
+
+  if (typeof candidate.retryable === 'boolean') {
+    return candidate.retryable
+  }
+
+  if ((error as { $retryable?: unknown }).$retryable) {
+    return true
+  }
+
+  const status = getStatusCode(error)
+  if (status !== undefined) {
+    return status === 408 || status === 425 || status === 429 || status >= 500
+  }
+
+  return isNetworkError(error)
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * The delay doubles after each attempt, starting at `delayMs` and capped at
+ * `maxDelayMs`. With jitter (the default), a random delay between zero and
+ * that value is used, so clients that failed together do not retry together.
+ *
+ * @param {number} attempt - The attempt that just failed, starting at 1.
+ * @param {RetryConfig} retryConfig - The retry configuration.
+ * @returns {number} The delay in milliseconds.
+ *
+ * @example
+ * ```typescript
+ * computeBackoffDelay(3, { maxAttempts: 5, delayMs: 100, jitter: false })
+ * // Output: 400
+ * ```
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  retryConfig: RetryConfig
+): number {
+  const ceiling = Math.min(
+    retryConfig.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    retryConfig.delayMs * Math.pow(2, attempt - 1)
+  )
+
+  return retryConfig.jitter === false
+    ? ceiling
+    : Math.floor(Math.random() * ceiling)
+}
+
+/**
+ * Retry an operation with exponential backoff and full jitter.
+ *
+ * Only errors accepted by `isRetryable` (isRetryableError by default) are
+ * retried; any other error is thrown right away. When the error carries a
+ * `Retry-After`, the next attempt waits at least that long, up to
+ * `maxDelayMs`. Retrying stops
+ * after `maxAttempts`, when the next delay would exceed `maxElapsedMs`, or
+ * when `signal` aborts.
+ *
+ * @param {(attempt: number) => Promise<T>} operation - The operation to retry. Receives the attempt number, starting at 1.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for the operation.
+ * @returns {Promise<T>} A promise that resolves to the result of the operation.
+ * @throws {Error} The last error thrown by the operation, or the abort reason.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController()
+ *
+ * const result = await retryWithBackoff(() => someOperation(), {
+ *   maxAttempts: 5,
+ *   delayMs: 200,
+ *   maxDelayMs: 5000,
+ *   signal: controller.signal,
+ *   isRetryable: (error) => !(error instanceof ValidationError),
+ * })
+ * ```
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+): Promise<T> {
+  const { signal } = retryConfig
+  const isRetryable =
+    retryConfig.isRetryable || ((error: unknown) => isRetryableError(error))
+  const startedAt = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw abortReason(signal)
+    }
+
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      const lastError =
+        error instanceof Error ? error : new Error(String(error))
+
+      if (
+        attempt >= retryConfig.maxAttempts ||
+        signal?.aborted ||
+        !isRetryable(error, attempt)
+      ) {
+        throw lastError
+      }
+
+      // A server-supplied Retry-After cannot stall the caller beyond maxDelayMs
+      const delayTime = Math.min(
+        Math.max(
+          computeBackoffDelay(attempt, retryConfig),
+          getRetryAfterMs(error) ?? 0
+        ),
+        retryConfig.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+      )
+
+      if (
+        retryConfig.maxElapsedMs !== undefined &&
+        Date.now() - startedAt + delayTime > retryConfig.maxElapsedMs
+      ) {
+        throw lastError
+      }
+
+      console.warn(
+        `Attempt ${attempt} failed, retrying in ${delayTime}ms:`,
+        lastError.message
+      )
+      retryConfig.onRetry?.({ attempt, delayMs: delayTime, error: lastError })
+      await delay(delayTime, signal)
+    }
+  }
+}
@@ -0,0 +1,41 @@
+export interface RetryConfig {
+  maxAttempts: number
+  delayMs: number
+  maxDelayMs?: number
+  maxElapsedMs?: number
+  jitter?: boolean
+  signal?: AbortSignal
+  isRetryable?: (error: unknown, attempt: number) => boolean
+  onRetry?: (event: RetryEvent) => void
+}
+
+export interface RetryEvent {
+  attempt: number
+  delayMs: number
+  error: Error
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  name?: string
+  failureThreshold?: number
+  resetTimeoutMs?: number
+  isFailure?: (error: unknown) => boolean
+  onStateChange?: CircuitStateListener
+}
+
+export type CircuitStateListener = (
+  state: CircuitState,
+  previous: CircuitState
+) => void
+
+export interface CircuitBreakerStats {
+  state: CircuitState
+  consecutiveFailures: number
+  totalFailures: number
+  totalSuccesses: number
+  rejected: number
+  openedAt?: Date
+  nextAttemptAt?: Date
+}
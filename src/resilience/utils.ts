@@ -0,0 +1,141 @@
+// Socket and DNS failures, from Node or wrapped by fetch in `cause`
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+])
+
+// Connection and timeout errors of the OpenSearch client and the AWS SDK
+const NETWORK_ERROR_NAMES = new Set([
+  'ConnectionError',
+  'NoLivingConnectionsError',
+  'TimeoutError',
+  'RequestTimeout',
+  'NetworkingError',
+])
+
+/**
+ * Parse a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @param {string | null | undefined} value - The header value.
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the header is missing or invalid.
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter('2')
+ * // Output: 2000
+ * ```
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Read the HTTP status code from errors thrown by fetch wrappers, the AWS
+ * SDK and the OpenSearch client.
+ *
+ * @param {unknown} error - The error.
+ * @returns {number | undefined} The status code, if the error carries one.
+ */
+export function getStatusCode(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined
+  }
+
+  const candidate = error as {
+    status?: unknown
+    statusCode?: unknown
+    meta?: { statusCode?: unknown }
+    $metadata?: { httpStatusCode?: unknown }
+  }
+
+  const status =
+    candidate.status ??
+    candidate.statusCode ??
+    candidate.meta?.statusCode ??
+    candidate.$metadata?.httpStatusCode
+
+  return typeof status === 'number' ? status : undefined
+}
+
+/**
+ * Check whether an error means the request did not reach the server or
+ * timed out, from its error code (also on `cause`) or its class name.
+ *
+ * @param {unknown} error - The error.
+ * @returns {boolean} True for connection, DNS and timeout failures.
+ *
+ * @example
+ * ```typescript
+ * isNetworkError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+ * // Output: true
+ * isNetworkError(new SyntaxError('Unexpected token < in JSON'))
+ * // Output: false
+ * ```
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false
+  }
+
+  const candidate = error as {
+    name?: unknown
+    code?: unknown
+    cause?: { code?: unknown }
+  }
+  const code = candidate.code ?? candidate.cause?.code
+
+  return (
+    (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) ||
+    (typeof candidate.name === 'string' &&
+      NETWORK_ERROR_NAMES.has(candidate.name))
+  )
+}
+
+/**
+ * Read how long the server asked to wait before retrying, from a
+ * `retryAfterMs` property or a `Retry-After` response header.
+ *
+ * @param {unknown} error - The error.
+ * @returns {number | undefined} The delay in milliseconds, if the error carries one.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined
+  }
+
+  const candidate = error as {
+    retryAfterMs?: unknown
+    meta?: { headers?: Record<string, string | undefined> }
+    $response?: { headers?: Record<string, string | undefined> }
+  }
+
+  if (typeof candidate.retryAfterMs === 'number') {
+    return candidate.retryAfterMs
+  }
+
+  return parseRetryAfter(
+    candidate.meta?.headers?.['retry-after'] ??
+      candidate.$response?.headers?.['retry-after']
+  )
+}
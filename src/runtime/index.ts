@@ -0,0 +1,413 @@
+import { readFile } from 'fs/promises'
+import { hostname } from 'os'
+import { join } from 'path'
+import { DetectRuntimeOptions, RuntimeInfo } from './types'
+
+const DEFAULT_TIMEOUT_MS = 1000
+const DEFAULT_IMDS_ENDPOINT = 'http://169.254.169.254'
+const DEFAULT_SERVICE_ACCOUNT_DIR =
+  '/var/run/secrets/kubernetes.io/serviceaccount'
+const DEFAULT_CGROUP_PATH = '/proc/self/cgroup'
+const IMDS_TOKEN_TTL_SECONDS = '60'
+
+// arn:aws:<service>:<region>:<account>:<resource>
+const ARN_PATTERN = /^arn:aws[a-z-]*:[a-z0-9-]+:([a-z0-9-]*):(\d{12}):/
+const EKS_ISSUER_PATTERN = /^https:\/\/oidc\.eks\.([a-z0-9-]+)\.amazonaws\.com/
+const CONTAINER_ID_PATTERN = /([0-9a-f]{64})/
+
+// Detection runs at most once per process when called without options
+let cachedRuntime: Promise<RuntimeInfo> | undefined
+
+/**
+ * Fetch a URL with a timeout, returning undefined on any failure.
+ *
+ * @param {string} url - The URL to fetch.
+ * @param {RequestInit} init - The request options.
+ * @param {number} timeoutMs - How long to wait for a response.
+ * @returns {Promise<string | undefined>} The response body, or undefined if the request failed.
+ */
+async function fetchText(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<string | undefined> {
+  try {
+    const res = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    return res.ok ? await res.text() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Fetch and parse a JSON document, returning undefined on any failure.
+ *
+ * @param {string} url - The URL to fetch.
+ * @param {RequestInit} init - The request options.
+ * @param {number} timeoutMs - How long to wait for a response.
+ * @returns {Promise<T | undefined>} The parsed document, or undefined if the request failed.
+ */
+async function fetchJson<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<T | undefined> {
+  const text = await fetchText(url, init, timeoutMs)
+  if (text === undefined) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read a file, returning undefined if it does not exist or cannot be read.
+ *
+ * @param {string} path - The file to read.
+ * @returns {Promise<string | undefined>} The trimmed file contents.
+ */
+async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return (await readFile(path, 'utf8')).trim()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read the region and account ID from an ARN.
+ *
+ * @param {string} [arn] - The ARN.
+ * @returns {{ region?: string, accountId?: string }} The region and account ID, if the ARN has them.
+ */
+function parseArn(arn?: string): { region?: string; accountId?: string } {
+  const match = arn?.match(ARN_PATTERN)
+  if (!match) {
+    return {}
+  }
+
+  return {
+    ...(match[1] && { region: match[1] }),
+    ...(match[2] && { accountId: match[2] }),
+  }
+}
+
+/**
+ * Decode the claims of a JWT without verifying it.
+ *
+ * @param {string} token - The token.
+ * @returns {Record<string, unknown> | undefined} The claims, or undefined if the token is malformed.
+ */
+function decodeJwtClaims(token: string): Record<string, unknown> | undefined {
+  const payload = token.split('.')[1]
+  if (!payload) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read the container ID from the cgroup file of the current process.
+ *
+ * @param {string} cgroupPath - The cgroup file.
+ * @returns {Promise<string | undefined>} The container ID, if the process runs in a container.
+ */
+async function readContainerId(
+  cgroupPath: string
+): Promise<string | undefined> {
+  const cgroup = await readOptionalFile(cgroupPath)
+  return cgroup?.match(CONTAINER_ID_PATTERN)?.[1]
+}
+
+/**
+ * Describe a Lambda function from its environment variables.
+ *
+ * @param {Record<string, string | undefined>} env - The environment.
+ * @returns {RuntimeInfo} The runtime information.
+ */
+function detectLambda(env: Record<string, string | undefined>): RuntimeInfo {
+  return {
+    platform: 'lambda',
+    ...(env['AWS_REGION'] && { region: env['AWS_REGION'] }),
+    ...(env['AWS_LAMBDA_FUNCTION_NAME'] && {
+      functionName: env['AWS_LAMBDA_FUNCTION_NAME'],
+    }),
+    ...(env['AWS_LAMBDA_FUNCTION_VERSION'] && {
+      functionVersion: env['AWS_LAMBDA_FUNCTION_VERSION'],
+    }),
+  }
+}
+
+/**
+ * Describe an ECS task from the task metadata endpoint (v4 or v3).
+ *
+ * @param {string} metadataUri - The container metadata endpoint.
+ * @param {number} timeoutMs - How long to wait for each request.
+ * @returns {Promise<RuntimeInfo | undefined>} The runtime information, or undefined if the endpoint does not answer.
+ */
+async function detectEcs(
+  metadataUri: string,
+  timeoutMs: number
+): Promise<RuntimeInfo | undefined> {
+  const [task, container] = await Promise.all([
+    fetchJson<{
+      Cluster?: string
+      TaskARN?: string
+      AvailabilityZone?: string
+      LaunchType?: string
+    }>(`${metadataUri}/task`, {}, timeoutMs),
+    fetchJson<{ DockerId?: string }>(metadataUri, {}, timeoutMs),
+  ])
+
+  if (!task) {
+    return undefined
+  }
+
+  return {
+    platform: 'ecs',
+    ...parseArn(task.TaskARN),
+    ...(task.AvailabilityZone && { availabilityZone: task.AvailabilityZone }),
+    ...(task.Cluster && { cluster: task.Cluster }),
+    ...(task.TaskARN && { taskArn: task.TaskARN }),
+    ...(task.LaunchType && { launchType: task.LaunchType }),
+    ...(container?.DockerId && { containerId: container.DockerId }),
+  }
+}
+
+/**
+ * Describe an EC2 instance from its identity document, using IMDSv2.
+ *
+ * @param {string} endpoint - The instance metadata endpoint.
+ * @param {number} timeoutMs - How long to wait for each request.
+ * @returns {Promise<RuntimeInfo | undefined>} The runtime information, or undefined if IMDS does not answer.
+ */
+async function detectEc2(
+  endpoint: string,
+  timeoutMs: number
+): Promise<RuntimeInfo | undefined> {
+  const token = await fetchText(
+    `${endpoint}/latest/api/token`,
+    {
+      method: 'PUT',
+      headers: {
+        'X-aws-ec2-metadata-token-ttl-seconds': IMDS_TOKEN_TTL_SECONDS,
+      },
+    },
+    timeoutMs
+  )
+  if (!token) {
+    return undefined
+  }
+
+  const identity = await fetchJson<{
+    region?: string
+    accountId?: string
+    availabilityZone?: string
+    instanceId?: string
+    instanceType?: string
+  }>(
+    `${endpoint}/latest/dynamic/instance-identity/document`,
+    { headers: { 'X-aws-ec2-metadata-token': token } },
+    timeoutMs
+  )
+  if (!identity) {
+    return undefined
+  }
+
+  return {
+    platform: 'ec2',
+    ...(identity.region && { region: identity.region }),
+    ...(identity.accountId && { accountId: identity.accountId }),
+    ...(identity.availabilityZone && {
+      availabilityZone: identity.availabilityZone,
+    }),
+    ...(identity.instanceId && { instanceId: identity.instanceId }),
+    ...(identity.instanceType && { instanceType: identity.instanceType }),
+  }
+}
+
+/**
+ * Describe a Kubernetes pod from its service account token.
+ *
+ * The token's claims give the namespace, pod and service account. A token
+ * issued by an EKS OIDC provider, or an IRSA role in the environment, marks
+ * the cluster as EKS and gives its region and account.
+ *
+ * @param {string} serviceAccountDir - The mounted service account directory.
+ * @param {Record<string, string | undefined>} env - The environment.
+ * @returns {Promise<RuntimeInfo | undefined>} The runtime information, or undefined if no service account is mounted.
+ */
+async function detectKubernetes(
+  serviceAccountDir: string,
+  env: Record<string, string | undefined>
+): Promise<RuntimeInfo | undefined> {
+  const token = await readOptionalFile(join(serviceAccountDir, 'token'))
+  if (!token && !env['KUBERNETES_SERVICE_HOST']) {
+    return undefined
+  }
+
+  const claims = (token && decodeJwtClaims(token)) || {}
+  const kubernetes = claims['kubernetes.io'] as
+    | {
+        namespace?: string
+        pod?: { name?: string }
+        serviceaccount?: { name?: string }
+      }
+    | undefined
+  const issuer = typeof claims['iss'] === 'string' ? claims['iss'] : ''
+  const eksRegion = issuer.match(EKS_ISSUER_PATTERN)?.[1]
+  const role = parseArn(env['AWS_ROLE_ARN'])
+
+  const namespace =
+    kubernetes?.namespace ||
+    (await readOptionalFile(join(serviceAccountDir, 'namespace')))
+  const podName = kubernetes?.pod?.name || env['HOSTNAME'] || hostname()
+  const isEks = !!(
+    eksRegion ||
+    env['AWS_WEB_IDENTITY_TOKEN_FILE'] ||
+    env['AWS_CONTAINER_CREDENTIALS_FULL_URI']
+  )
+
+  return {
+    platform: isEks ? 'eks' : 'kubernetes',
+    ...(eksRegion && { region: eksRegion }),
+    ...(role.accountId && { accountId: role.accountId }),
+    ...(namespace && { namespace }),
+    ...(podName && { podName }),
+    ...(kubernetes?.serviceaccount?.name && {
+      serviceAccount: kubernetes.serviceaccount.name,
+    }),
+  }
+}
+
+/**
+ * Detect where the current process runs and describe it.
+ *
+ * Platforms are checked in order:
+ * - Lambda, from the `AWS_LAMBDA_FUNCTION_NAME` environment variable.
+ * - ECS and Fargate, from the task metadata endpoint.
+ * - EKS and other Kubernetes clusters, from the service account token.
+ * - EC2, from the instance identity document (IMDSv2).
+ *
+ * Every request is given `timeoutMs` (1 second by default) and any failure
+ * falls through to the next check, so detection never throws. Outside AWS it
+ * resolves to `{ platform: 'unknown' }` with the region from the environment.
+ *
+ * Called without options, detection runs once and the result is reused.
+ *
+ * @param {DetectRuntimeOptions} [options] - Endpoints, paths and timeout, mostly for testing.
+ * @returns {Promise<RuntimeInfo>} The runtime platform and its metadata.
+ *
+ * @example
+ * ```typescript
+ * const runtime = await detectRuntime()
+ * // Output: {
+ * //   platform: 'ecs',
+ * //   region: 'us-east-1',
+ * //   accountId: '123456789012',
+ * //   cluster: 'arn:aws:ecs:us-east-1:123456789012:cluster/prod',
+ * //   taskArn: 'arn:aws:ecs:us-east-1:123456789012:task/prod/0123456789abcdef',
+ * //   containerId: '...',
+ * // }
+ * ```
+ */
+export function detectRuntime(
+  options?: DetectRuntimeOptions
+): Promise<RuntimeInfo> {
+  if (options) {
+    return runDetection(options)
+  }
+
+  if (!cachedRuntime) {
+    cachedRuntime = runDetection({})
+  }
+  return cachedRuntime
+}
+
+/**
+ * Run the platform checks in order and add the region, account and
+ * container ID from the environment when a check does not provide them.
+ *
+ * @param {DetectRuntimeOptions} options - The detection options.
+ * @returns {Promise<RuntimeInfo>} The runtime platform and its metadata.
+ */
+async function runDetection(
+  options: DetectRuntimeOptions
+): Promise<RuntimeInfo> {
+  const env = options.env || process.env
+  if (env['AWS_LAMBDA_FUNCTION_NAME']) {
+    return detectLambda(env)
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const imdsEndpoint =
+    options.imdsEndpoint ||
+    env['AWS_EC2_METADATA_SERVICE_ENDPOINT'] ||
+    DEFAULT_IMDS_ENDPOINT
+  const imdsEnabled =
+    !options.disableImds && env['AWS_EC2_METADATA_DISABLED'] !== 'true'
+  const ecsMetadataUri =
+    options.ecsMetadataUri ||
+    env['ECS_CONTAINER_METADATA_URI_V4'] ||
+    env['ECS_CONTAINER_METADATA_URI']
+
+  let runtime: RuntimeInfo | undefined
+
+  if (ecsMetadataUri) {
+    runtime = await detectEcs(ecsMetadataUri, timeoutMs)
+  }
+
+  if (!runtime) {
+    runtime = await detectKubernetes(
+      options.serviceAccountDir || DEFAULT_SERVICE_ACCOUNT_DIR,
+      env
+    )
+
+    // Pods on EKS nodes can often reach IMDS for the region and account
+    if (runtime && imdsEnabled && !runtime.region) {
+      const node = await detectEc2(imdsEndpoint, timeoutMs)
+      if (node) {
+        runtime = {
+          ...runtime,
+          platform: 'eks',
+          ...(node.region && { region: node.region }),
+          ...(node.accountId &&
+            !runtime.accountId && { accountId: node.accountId }),
+          ...(node.availabilityZone && {
+            availabilityZone: node.availabilityZone,
+          }),
+        }
+      }
+    }
+  }
+
+  if (!runtime && imdsEnabled) {
+    runtime = await detectEc2(imdsEndpoint, timeoutMs)
+  }
+
+  runtime = runtime || { platform: 'unknown' }
+
+  const region =
+    runtime.region || env['AWS_REGION'] || env['AWS_DEFAULT_REGION']
+  const containerId =
+    runtime.containerId ||
+    (await readContainerId(options.cgroupPath || DEFAULT_CGROUP_PATH))
+
+  return {
+    ...runtime,
+    ...(region && { region }),
+    ...(containerId && { containerId }),
+  }
+}
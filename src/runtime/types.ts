@@ -0,0 +1,35 @@
+export type RuntimePlatform =
+  | 'lambda'
+  | 'ecs'
+  | 'eks'
+  | 'kubernetes'
+  | 'ec2'
+  | 'unknown'
+
+export interface RuntimeInfo {
+  platform: RuntimePlatform
+  region?: string
+  accountId?: string
+  availabilityZone?: string
+  cluster?: string
+  taskArn?: string
+  launchType?: string
+  namespace?: string
+  podName?: string
+  serviceAccount?: string
+  containerId?: string
+  instanceId?: string
+  instanceType?: string
+  functionName?: string
+  functionVersion?: string
+}
+
+export interface DetectRuntimeOptions {
+  timeoutMs?: number
+  env?: Record<string, string | undefined>
+  ecsMetadataUri?: string
+  imdsEndpoint?: string
+  disableImds?: boolean
+  serviceAccountDir?: string
+  cgroupPath?: string
+}
@@ -0,0 +1,257 @@
+import { SecretsCacheOptions } from './types'
+
+type CachedValue = unknown
+
+interface CacheEntry {
+  value: CachedValue
+  loadedAt: number
+  lastReadAt: number
+  expiresAt: number
+  loader: () => Promise<CachedValue>
+  timer?: NodeJS.Timeout
+}
+
+const DEFAULT_CACHE_OPTIONS: Required<Omit<SecretsCacheOptions, 'maxStaleMs'>> =
+  {
+    ttlMs: 5 * 60 * 1000,
+    refreshAheadMs: 30 * 1000,
+    backgroundRefresh: true,
+  }
+
+// Share of the TTL refreshed ahead by default, for TTLs below 5 minutes
+const DEFAULT_REFRESH_AHEAD_RATIO = 0.1
+
+/**
+ * In-memory cache for decrypted secret values.
+ *
+ * Values are kept for `ttlMs`. Shortly before they expire (`refreshAheadMs`,
+ * by default 30 seconds or a tenth of the TTL, whichever is shorter) they are
+ * refreshed in the background, so callers keep getting the cached value
+ * without waiting on Secrets Manager. Keys that were not read since their
+ * last refresh are left to expire instead. If a refresh fails the previous
+ * value is served until `maxStaleMs` has passed since expiry.
+ *
+ * @example
+ * ```typescript
+ * const cache = new SecretsCache({ ttlMs: 10 * 60 * 1000 })
+ *
+ * // Every call within the TTL is served from memory
+ * const secrets = await loadSecrets({
+ *   secretName: 'prod/video-microservice/env',
+ *   region: 'us-east-2',
+ *   cache,
+ * })
+ * ```
+ */
+export class SecretsCache {
+  private entries = new Map<string, CacheEntry>()
+  private pending = new Map<string, Promise<CachedValue>>()
+  private readonly ttlMs: number
+  private readonly refreshAheadMs: number
+  private readonly maxStaleMs: number
+  private readonly backgroundRefresh: boolean
+
+  constructor(options: SecretsCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_OPTIONS.ttlMs
+    this.refreshAheadMs =
+      options.refreshAheadMs ??
+      Math.min(
+        DEFAULT_CACHE_OPTIONS.refreshAheadMs,
+        this.ttlMs * DEFAULT_REFRESH_AHEAD_RATIO
+      )
+    this.maxStaleMs = options.maxStaleMs ?? Infinity
+    this.backgroundRefresh =
+      options.backgroundRefresh ?? DEFAULT_CACHE_OPTIONS.backgroundRefresh
+
+    if (this.ttlMs <= 0) {
+      throw new Error('Cache TTL must be greater than zero')
+    }
+    if (this.refreshAheadMs < 0 || this.refreshAheadMs >= this.ttlMs) {
+      throw new Error(
+        'Cache refreshAheadMs must be zero or more and less than the TTL'
+      )
+    }
+  }
+
+  /**
+   * Returns the cached value for a key, loading it when missing or expired.
+   *
+   * @param {string} key - The cache key.
+   * @param {() => Promise<T>} loader - Loads a fresh value.
+   * @returns {Promise<T>} The cached or freshly loaded value.
+   *
+   * @example
+   * ```typescript
+   * const value = await cache.get('us-east-2:prod/api', () => fetchSecret())
+   * ```
+   */
+  async get<T = Record<string, string>>(
+    key: string,
+    loader: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.read(key, loader)
+    } finally {
+      const entry = this.entries.get(key)
+      if (entry) {
+        entry.lastReadAt = Date.now()
+      }
+    }
+  }
+
+  /**
+   * Checks whether a key has a cached value, fresh or stale.
+   *
+   * @param {string} key - The cache key.
+   * @returns {boolean} True if a value is cached.
+   */
+  has(key: string): boolean {
+    return this.entries.has(key)
+  }
+
+  /**
+   * Removes one key, or every key when none is given.
+   *
+   * @param {string} [key] - The cache key to remove.
+   * @returns {void}
+   */
+  invalidate(key?: string): void {
+    const keys = key === undefined ? [...this.entries.keys()] : [key]
+
+    for (const k of keys) {
+      const entry = this.entries.get(k)
+      if (entry?.timer) {
+        clearTimeout(entry.timer)
+      }
+      this.entries.delete(k)
+    }
+  }
+
+  /**
+   * Removes every cached value and cancels scheduled refreshes.
+   *
+   * @returns {void}
+   */
+  clear(): void {
+    this.invalidate()
+  }
+
+  /**
+   * Number of cached keys.
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Returns the fresh value for a key, or loads it, falling back to the stale value.
+   */
+  private async read<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key)
+    const now = Date.now()
+
+    if (!entry) {
+      return (await this.load(key, loader)) as T
+    }
+
+    entry.loader = loader
+
+    if (now < entry.expiresAt) {
+      if (now >= entry.expiresAt - this.refreshAheadMs) {
+        this.refreshInBackground(key)
+      }
+      return entry.value as T
+    }
+
+    try {
+      return (await this.load(key, loader)) as T
+    } catch (error) {
+      if (now - entry.expiresAt > this.maxStaleMs) {
+        throw error
+      }
+
+      console.warn(
+        `Failed to refresh cached secret ${key}, serving stale value:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      return entry.value as T
+    }
+  }
+
+  /**
+   * Loads a value and stores it, sharing the request between concurrent callers.
+   */
+  private load(
+    key: string,
+    loader: () => Promise<CachedValue>
+  ): Promise<CachedValue> {
+    const inFlight = this.pending.get(key)
+    if (inFlight) {
+      return inFlight
+    }
+
+    const promise = loader()
+      .then((value) => {
+        this.store(key, value, loader)
+        return value
+      })
+      .finally(() => {
+        this.pending.delete(key)
+      })
+
+    this.pending.set(key, promise)
+    return promise
+  }
+
+  /**
+   * Stores a value and schedules its background refresh.
+   */
+  private store(
+    key: string,
+    value: CachedValue,
+    loader: () => Promise<CachedValue>
+  ): void {
+    const previous = this.entries.get(key)
+    if (previous?.timer) {
+      clearTimeout(previous.timer)
+    }
+
+    const loadedAt = Date.now()
+    const entry: CacheEntry = {
+      value,
+      loadedAt,
+      lastReadAt: previous?.lastReadAt ?? 0,
+      expiresAt: loadedAt + this.ttlMs,
+      loader,
+    }
+
+    if (this.backgroundRefresh) {
+      entry.timer = setTimeout(() => {
+        // Let keys nobody read since this load expire instead
+        if (entry.lastReadAt >= entry.loadedAt) {
+          this.refreshInBackground(key)
+        }
+      }, this.ttlMs - this.refreshAheadMs)
+      entry.timer.unref()
+    }
+
+    this.entries.set(key, entry)
+  }
+
+  /**
+   * Refreshes a key without blocking the caller. Failures keep the current value.
+   */
+  private refreshInBackground(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry || this.pending.has(key)) {
+      return
+    }
+
+    this.load(key, entry.loader).catch((error) => {
+      console.warn(
+        `Background refresh failed for cached secret ${key}:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+    })
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  SecretConflict,
+  SecretLoadFailure,
+  SecretWriteDiff,
+  UnresolvedReference,
+} from './types'
+
+/**
+ * Error thrown when loaded secrets do not satisfy the required keys or schema.
+ *
+ * Every problem found is reported at once, so a misconfigured deployment
+ * can be fixed in a single pass.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loadSecrets(config, { requiredKeys: ['DATABASE_URL', 'API_KEY'] })
+ * } catch (error) {
+ *   if (error instanceof SecretValidationError) {
+ *     console.error(error.missingKeys, error.emptyKeys, error.invalidKeys)
+ *   }
+ * }
+ * ```
+ */
+export class SecretValidationError extends Error {
+  readonly missingKeys: string[]
+  readonly emptyKeys: string[]
+  readonly invalidKeys: string[]
+
+  constructor(issues: {
+    missingKeys: string[]
+    emptyKeys: string[]
+    invalidKeys: string[]
+  }) {
+    const details = [
+      issues.missingKeys.length > 0 &&
+        `missing keys: ${issues.missingKeys.join(', ')}`,
+      issues.emptyKeys.length > 0 &&
+        `empty keys: ${issues.emptyKeys.join(', ')}`,
+      issues.invalidKeys.length > 0 &&
+        `invalid keys: ${issues.invalidKeys.join(', ')}`,
+    ].filter(Boolean)
+
+    super(`Secret validation failed (${details.join('; ')})`)
+    this.name = 'SecretValidationError'
+    this.missingKeys = issues.missingKeys
+    this.emptyKeys = issues.emptyKeys
+    this.invalidKeys = issues.invalidKeys
+  }
+}
+
+/**
+ * Error thrown by the `error-on-conflict` merge policy when a key is defined
+ * by more than one secret, or is already set in the environment.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loadSecrets(config, { mergePolicy: 'error-on-conflict' })
+ * } catch (error) {
+ *   if (error instanceof SecretConflictError) {
+ *     console.error(error.conflicts)
+ *   }
+ * }
+ * ```
+ */
+export class SecretConflictError extends Error {
+  readonly conflicts: SecretConflict[]
+
+  constructor(conflicts: SecretConflict[]) {
+    super(
+      `Conflicting secret keys: ${conflicts.map((conflict) => `${conflict.key} (${conflict.sources.join(', ')})`).join('; ')}`
+    )
+    this.name = 'SecretConflictError'
+    this.conflicts = conflicts
+  }
+}
+
+/**
+ * Error thrown when `failOnError` is set and one or more secrets could not
+ * be loaded. Each failed secret is listed with its own error message.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loadSecrets(config, { failOnError: true })
+ * } catch (error) {
+ *   if (error instanceof SecretLoadError) {
+ *     error.failures.forEach((f) => console.error(f.source, f.message))
+ *   }
+ * }
+ * ```
+ */
+export class SecretLoadError extends Error {
+  readonly failures: SecretLoadFailure[]
+
+  constructor(failures: SecretLoadFailure[]) {
+    super(
+      `Failed to load secrets: ${failures.map((failure) => `${failure.source} (${failure.message})`).join('; ')}`
+    )
+    this.name = 'SecretLoadError'
+    this.failures = failures
+  }
+}
+
+/**
+ * Error thrown when placeholders in secret values cannot be resolved,
+ * either because they reference unknown keys or because they form a cycle.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loadSecrets(config, { interpolate: true })
+ * } catch (error) {
+ *   if (error instanceof SecretInterpolationError) {
+ *     console.error(error.unresolved, error.cycle)
+ *   }
+ * }
+ * ```
+ */
+export class SecretInterpolationError extends Error {
+  readonly unresolved: UnresolvedReference[]
+  readonly cycle: string[]
+
+  constructor(issues: {
+    unresolved?: UnresolvedReference[]
+    cycle?: string[]
+  }) {
+    const unresolved = issues.unresolved ?? []
+    const cycle = issues.cycle ?? []
+
+    super(
+      cycle.length > 0
+        ? `Circular secret reference: ${cycle.join(' -> ')}`
+        : `Unresolved secret references: ${unresolved.map((issue) => `\${${issue.reference}} in ${issue.key}${issue.reason ? ` (${issue.reason})` : ''}`).join(', ')}`
+    )
+    this.name = 'SecretInterpolationError'
+    this.unresolved = unresolved
+    this.cycle = cycle
+  }
+}
+
+/**
+ * Error thrown when writing a secret would delete keys and `allowDelete`
+ * is not set. Nothing is written; the full diff is attached.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await syncSecretsFromFile('./secrets.json', 'prod/video/env')
+ * } catch (error) {
+ *   if (error instanceof SecretDeletionError) {
+ *     console.error(`Would delete ${error.keys.join(', ')}`)
+ *   }
+ * }
+ * ```
+ */
+export class SecretDeletionError extends Error {
+  readonly secretName: string
+  readonly keys: string[]
+  readonly diff: SecretWriteDiff
+
+  constructor(secretName: string, diff: SecretWriteDiff) {
+    const keys = diff.removed.map((change) => change.key)
+    super(
+      `Refusing to delete keys from secret ${secretName}: ${keys.join(', ')}. Set allowDelete to remove them`
+    )
+    this.name = 'SecretDeletionError'
+    this.secretName = secretName
+    this.keys = keys
+    this.diff = diff
+  }
+}
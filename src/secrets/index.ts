@@ -1,243 +1,184 @@
 import {
-  SecretsManagerClient,
-  GetSecretValueCommand,
-  type SecretsManagerClientConfig,
-} from '@aws-sdk/client-secrets-manager'
-import { SecretConfig, RetryConfig } from './types'
-
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxAttempts: 3,
-  delayMs: 1000,
-}
+  SecretConfig,
+  RetryConfig,
+  LoadSecretsOptions,
+  LoadSecretsResult,
+  ProviderChainConfig,
+} from './types'
+import { applySecrets, mergeSecretSources, resolveLoadOptions } from './utils'
+import { fetchSecretsManagerSecrets, validateConfig } from './secrets-manager'
+import { isProviderChainConfig, loadFromProviders } from './providers'
+import { getSecretInventory } from './inventory'
+import { createSecretResolver, interpolateValues } from './interpolation'
+
+export { SecretsCache } from './cache'
+export {
+  SecretValidationError,
+  SecretConflictError,
+  SecretLoadError,
+  SecretInterpolationError,
+  SecretDeletionError,
+} from './errors'
+export { loadParameters } from './parameters'
+export { getSecretInventory, maskValue } from './inventory'
+export { watchSecrets, SecretWatcher } from './watcher'
+export { interpolateValues } from './interpolation'
+export {
+  createOrUpdateSecret,
+  syncSecretsFromFile,
+  diffSecretValues,
+} from './writer'
+export {
+  createProviderChain,
+  createSecretsManagerProvider,
+  createDotenvProvider,
+  createFileProvider,
+  createEnvProvider,
+  createMemoryProvider,
+} from './providers'
 
 /**
- * Validate the configuration object.
+ * Load secrets from AWS Secrets Manager, or from a chain of secret providers.
  *
- * @param {SecretConfig} config - The configuration object containing the secret name and region.
- * @returns {void}
- */
-
-/**
- * Validate the configuration object.
+ * When `config.providers` is given, the providers are tried in order and the
+ * first one that loads successfully is used. This lets local development and
+ * CI load the same keys from files or the environment without AWS access.
  *
- * @param {SecretConfig} config - The configuration object containing the secret name and region.
- * @returns {void}
- */
-/**
- * Validate the configuration object.
+ * Load failures throw when `failOnError` is set, and otherwise only when
+ * `NODE_ENV` is `production`. When `requiredKeys` or `schema` are given, the
+ * loaded secrets (together with the existing environment) are checked before
+ * anything is written to `process.env`.
  *
- * @param {SecretConfig} config - The configuration object containing the secret name and region.
- * @returns {void}
- */
-function validateConfig(config: SecretConfig): void {
-  if (!config.region) {
-    throw new Error('AWS region is required')
-  }
-
-  if (!config.secretName) {
-    throw new Error('Secret name is required')
-  }
-}
-
-/**
- * Create a Secrets Manager client configuration.
- *
- * @param {SecretConfig} config - The configuration object containing the secret name and region.
- * @returns {SecretsManagerClientConfig} A Secrets Manager client configuration.
+ * @param {SecretConfig | ProviderChainConfig} config - The secret name and region, or the providers to load from.
+ * @param {RetryConfig | LoadSecretsOptions} [options] - The load options, or a retry configuration.
+ * @returns {Promise<Record<string, string>>} A promise that resolves to a record of secret names and their values.
+ * @throws {SecretValidationError} If a required key is missing, empty or invalid.
  *
  * @example
  * ```typescript
- * const clientConfig = createClientConfig({
+ * const secrets = await loadSecrets({
  *   secretName: 'dev/video-microservice/env',
  *   region: 'us-east-2',
  * })
- * // Output: { region: 'us-east-2', maxAttempts: 3 }
- * ```
- */
-function createClientConfig(config: SecretConfig): SecretsManagerClientConfig {
-  const clientConfig: SecretsManagerClientConfig = {
-    region: config.region,
-    maxAttempts: DEFAULT_RETRY_CONFIG.maxAttempts,
-  }
-
-  // Use IAM roles if available, otherwise use provided credentials
-  if (
-    process.env['AWS_ACCESS_KEY_ID'] &&
-    process.env['AWS_SECRET_ACCESS_KEY']
-  ) {
-    // Use environment variables (IAM roles or default credentials)
-    console.log('Using AWS credentials from environment variables')
-  } else if (config.accessKeyId && config.secretAccessKey) {
-    // Use provided credentials
-    clientConfig.credentials = {
-      accessKeyId: config.accessKeyId,
-      secretAccessKey: config.secretAccessKey,
-    }
-  }
-
-  return clientConfig
-}
-
-/**
- * Delay for a given number of milliseconds.
- *
- * @param {number} ms - The number of milliseconds to delay.
- * @returns {Promise<void>} A promise that resolves after the delay.
+ * // Output: { NODE_ENV: 'development', DATABASE_URL: '...', API_KEY: '...', ... }
  *
- * @example
- * ```typescript
- * await delay(1000)
- * // Output: A promise that resolves after 1 second
- * ```
- */
-async function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
-}
-
-/**
- * Retry an operation with exponential backoff.
+ * // Serve repeated loads from memory
+ * const cache = new SecretsCache({ ttlMs: 5 * 60 * 1000 })
+ * await loadSecrets({ secretName: 'dev/video-microservice/env', region: 'us-east-2', cache })
  *
- * @param {() => Promise<T>} operation - The operation to retry.
- * @param {RetryConfig} [retryConfig] - The retry configuration for the operation.
- * @returns {Promise<T>} A promise that resolves to the result of the operation.
+ * // Fail at boot when a key is missing
+ * await loadSecrets(config, { requiredKeys: ['DATABASE_URL', 'API_KEY'], failOnError: true })
  *
- * @example
- * ```typescript
- * const result = await retryWithBackoff(async () => {
- *   return await someOperation()
+ * // Local file in development, Secrets Manager everywhere else
+ * await loadSecrets({
+ *   providers: [
+ *     createFileProvider('./secrets.local.json'),
+ *     createSecretsManagerProvider({ secretName: 'prod/video-microservice/env', region: 'us-east-2' }),
+ *   ],
  * })
- * // Output: The result of the operation
  * ```
  */
-async function retryWithBackoff<T>(
-  operation: () => Promise<T>,
-  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
-): Promise<T> {
-  let lastError: Error
-
-  for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
-    try {
-      return await operation()
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-
-      if (attempt === retryConfig.maxAttempts) {
-        throw lastError
-      }
-
-      // Exponential backoff
-      const delayTime = retryConfig.delayMs * Math.pow(2, attempt - 1)
-      console.warn(
-        `Attempt ${attempt} failed, retrying in ${delayTime}ms:`,
-        lastError.message
-      )
-      await delay(delayTime)
-    }
-  }
-
-  throw lastError!
+export async function loadSecrets(
+  config: SecretConfig | ProviderChainConfig,
+  options?: RetryConfig | LoadSecretsOptions
+): Promise<Record<string, string>> {
+  const result = await loadSecretsDetailed(config, options)
+  return result.secrets
 }
 
 /**
- * Load secrets from AWS Secrets Manager.
+ * Load secrets like loadSecrets, and also report where each key came from.
  *
- * @param {SecretConfig} config - The configuration object containing the secret name and region.
- * @param {RetryConfig} [retryConfig] - The retry configuration for the operation.
- * @returns {Promise<Record<string, string>>} A promise that resolves to a record of secret names and their values.
+ * When several secrets define the same key, `mergePolicy` decides the
+ * outcome: `override` (default) keeps the last value, `preserve-existing`
+ * keeps the first value and leaves keys already set in `process.env`
+ * untouched, and `error-on-conflict` throws a SecretConflictError. Shadowed
+ * keys are logged as warnings and listed in `conflicts`.
+ *
+ * With `interpolate`, `${KEY}` and `${secret:name#key}` placeholders in the
+ * loaded values are resolved before they are validated and applied.
+ *
+ * Secrets that could not be loaded are listed in `failures` when
+ * `failOnError` is off, so callers can decide how to degrade.
+ *
+ * @param {SecretConfig | ProviderChainConfig} config - The secret name and region, or the providers to load from.
+ * @param {RetryConfig | LoadSecretsOptions} [options] - The load options, or a retry configuration.
+ * @returns {Promise<LoadSecretsResult>} A promise that resolves to the secrets, their provenance, any conflicts and load failures.
+ * @throws {SecretLoadError} If `failOnError` is set and any secret failed to load.
+ * @throws {SecretInterpolationError} If `interpolate` is set and a placeholder cannot be resolved.
+ * @throws {SecretConflictError} If the policy is `error-on-conflict` and a key is defined more than once.
+ * @throws {SecretValidationError} If a required key is missing, empty or invalid.
  *
  * @example
  * ```typescript
- * const secrets = await loadSecrets({
- *   secretName: 'dev/video-microservice/env',
- *   region: 'us-east-2',
- * })
- * // Output: { NODE_ENV: 'development', DATABASE_URL: '...', API_KEY: '...', ... }
+ * const { secrets, provenance, conflicts } = await loadSecretsDetailed(
+ *   { secretName: ['shared/env', 'video/env'], region: 'us-east-2' },
+ *   { mergePolicy: 'preserve-existing' }
+ * )
+ * // provenance: { DATABASE_URL: { source: 'video/env' }, API_KEY: { source: 'shared/env' } }
  * ```
  */
-export async function loadSecrets(
-  config: SecretConfig,
-  retryConfig?: RetryConfig
-): Promise<Record<string, string>> {
-  validateConfig(config)
-
-  const clientConfig = createClientConfig(config)
-  const client = new SecretsManagerClient(clientConfig)
-
-  const secretNames = Array.isArray(config.secretName)
-    ? config.secretName
-    : [config.secretName]
-
-  const allSecrets: Record<string, string> = {}
-
-  for (const secretName of secretNames) {
-    if (!secretName || typeof secretName !== 'string') {
-      console.warn('Invalid secret name provided, skipping')
-      continue
-    }
-
-    try {
-      const secrets = await retryWithBackoff(async () => {
-        const command = new GetSecretValueCommand({
-          SecretId: secretName,
-        })
-
-        const response = await client.send(command)
-
-        if (!response.SecretString) {
-          throw new Error(`Secret ${secretName} not found or empty`)
-        }
-
-        try {
-          return JSON.parse(response.SecretString)
-        } catch (parseError) {
-          throw new Error(
-            `Failed to parse secret ${secretName} as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-          )
-        }
-      }, retryConfig)
-
-      Object.assign(allSecrets, secrets)
-      console.log(`Successfully loaded secret: ${secretName}`)
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error'
-      console.error(`Error loading secret ${secretName}: ${errorMessage}`)
+export async function loadSecretsDetailed(
+  config: SecretConfig | ProviderChainConfig,
+  options?: RetryConfig | LoadSecretsOptions
+): Promise<LoadSecretsResult> {
+  if (!isProviderChainConfig(config)) {
+    validateConfig(config)
+  }
 
-      // In production, you might want to throw the error
-      // For now, we'll continue with other secrets
-      if (process.env['NODE_ENV'] === 'production') {
-        throw error
-      }
-    }
+  const loadOptions = resolveLoadOptions(options)
+  const { retryConfig } = loadOptions
+  const failOnError =
+    loadOptions.failOnError ?? process.env['NODE_ENV'] === 'production'
+
+  const { sources, failures } = isProviderChainConfig(config)
+    ? await loadFromProviders(config.providers, failOnError)
+    : await fetchSecretsManagerSecrets(config, {
+        failOnError,
+        ...(retryConfig && { retryConfig }),
+        ...(loadOptions.concurrency !== undefined && {
+          concurrency: loadOptions.concurrency,
+        }),
+        ...(loadOptions.batch !== undefined && { batch: loadOptions.batch }),
+      })
+
+  const result = mergeSecretSources(sources, loadOptions.mergePolicy)
+  result.failures = failures
+
+  if (loadOptions.interpolate) {
+    result.secrets = await interpolateValues(result.secrets, {
+      ...(!isProviderChainConfig(config) && {
+        resolveSecret: createSecretResolver(config, retryConfig),
+      }),
+    })
   }
 
-  // Set environment variables
-  Object.entries(allSecrets).forEach(([key, value]) => {
-    if (key && value !== undefined && value !== null) {
-      process.env[key] = String(value)
-    }
-  })
+  applySecrets(result, loadOptions)
 
-  return allSecrets
+  return result
 }
 
 /**
- * Test function to display all saved secrets in the environment variables.
- * This function logs all environment variables to the console for debugging purposes.
+ * Print a redacted inventory of the secrets loaded into the environment variables.
  * Useful for verifying that secrets were properly loaded and set as environment variables.
+ * Values are masked, so this is safe to call in production.
+ *
+ * @deprecated Use getSecretInventory, which also returns the inventory and can compare it against expected keys.
  *
  * @example
  * ```typescript
  * testSavedSecrets()
- * // Output: { NODE_ENV: 'development', DATABASE_URL: '...', API_KEY: '...', ... } 'SAVED SECRETS'
+ * // Output: Secret inventory (3 keys)
+ * //         API_KEY source=dev/video-microservice/env version=... length=32 preview=sk****9f
  * ```
  */
 export function testSavedSecrets(): void {
-  console.log(process.env, 'SAVED SECRETS')
+  getSecretInventory({ print: true })
 }
 
 /**
  * Check if the current process is running on AWS (EC2, Lambda, etc.).
+ * Only the environment is checked; use detectRuntime to identify the platform.
  *
  * @returns {boolean} True if running on AWS, false otherwise.
  *
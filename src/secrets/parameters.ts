@@ -0,0 +1,176 @@
+import {
+  SSMClient,
+  GetParametersByPathCommand,
+  type Parameter,
+} from '@aws-sdk/client-ssm'
+import {
+  ParameterConfig,
+  RetryConfig,
+  LoadSecretsOptions,
+  SecretSource,
+} from './types'
+import {
+  applySecrets,
+  createClientConfig,
+  mergeSecretSources,
+  resolveLoadOptions,
+} from './utils'
+import { retryWithBackoff } from '../resilience'
+
+/**
+ * Validate the parameter configuration object.
+ *
+ * @param {ParameterConfig} config - The configuration object containing the parameter path and region.
+ * @returns {void}
+ */
+function validateParameterConfig(config: ParameterConfig): void {
+  if (!config.region) {
+    throw new Error('AWS region is required')
+  }
+
+  if (!config.path || (Array.isArray(config.path) && !config.path.length)) {
+    throw new Error('Parameter path is required')
+  }
+}
+
+/**
+ * Map a parameter name to an env-style key relative to the requested path.
+ *
+ * @param {string} name - The full parameter name.
+ * @param {string} path - The path the parameter was loaded from.
+ * @returns {string} The env-style key.
+ *
+ * @example
+ * ```typescript
+ * toEnvKey('/prod/video/db/host', '/prod/video/')
+ * // Output: 'DB_HOST'
+ * ```
+ */
+export function toEnvKey(name: string, path: string): string {
+  const prefix = path.endsWith('/') ? path : `${path}/`
+  const relative = name.startsWith(prefix) ? name.slice(prefix.length) : name
+
+  return relative
+    .split('/')
+    .filter(Boolean)
+    .join('_')
+    .replace(/[^a-zA-Z0-9_]/g, '_')
+    .toUpperCase()
+}
+
+/**
+ * Fetch every parameter under a path, following pagination.
+ *
+ * @param {SSMClient} client - The SSM client.
+ * @param {string} path - The parameter path.
+ * @param {ParameterConfig} config - The parameter configuration.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for each page.
+ * @returns {Promise<Parameter[]>} A promise that resolves to the parameters under the path.
+ */
+async function getParametersByPath(
+  client: SSMClient,
+  path: string,
+  config: ParameterConfig,
+  retryConfig?: RetryConfig
+): Promise<Parameter[]> {
+  const parameters: Parameter[] = []
+  let nextToken: string | undefined
+
+  do {
+    const response = await retryWithBackoff(
+      () =>
+        client.send(
+          new GetParametersByPathCommand({
+            Path: path,
+            Recursive: config.recursive ?? true,
+            WithDecryption: config.withDecryption ?? true,
+            ...(nextToken && { NextToken: nextToken }),
+          })
+        ),
+      retryConfig
+    )
+
+    parameters.push(...(response.Parameters ?? []))
+    nextToken = response.NextToken
+  } while (nextToken)
+
+  return parameters
+}
+
+/**
+ * Load parameters from AWS SSM Parameter Store.
+ *
+ * Parameters are fetched recursively by path and SecureString values are
+ * decrypted. Each parameter name is mapped to an env-style key relative to
+ * its path (`/prod/video/db/host` becomes `DB_HOST`). Retries, merging,
+ * validation and `process.env` injection work the same way as in loadSecrets.
+ *
+ * @param {ParameterConfig} config - The configuration object containing the parameter path and region.
+ * @param {RetryConfig | LoadSecretsOptions} [options] - The load options, or a retry configuration.
+ * @returns {Promise<Record<string, string>>} A promise that resolves to a record of keys and their values.
+ * @throws {SecretValidationError} If a required key is missing, empty or invalid.
+ *
+ * @example
+ * ```typescript
+ * const parameters = await loadParameters({
+ *   path: '/prod/video/',
+ *   region: 'us-east-2',
+ * })
+ * // Output: { DB_HOST: '...', DB_PORT: '5432', FEATURE_FLAGS: '...' }
+ * ```
+ */
+export async function loadParameters(
+  config: ParameterConfig,
+  options?: RetryConfig | LoadSecretsOptions
+): Promise<Record<string, string>> {
+  validateParameterConfig(config)
+
+  const loadOptions = resolveLoadOptions(options)
+  const failOnError =
+    loadOptions.failOnError ?? process.env['NODE_ENV'] === 'production'
+  const transformKey = config.transformKey ?? toEnvKey
+
+  const client = new SSMClient(createClientConfig(config))
+  const paths = Array.isArray(config.path) ? config.path : [config.path]
+
+  const sources: SecretSource[] = []
+
+  for (const path of paths) {
+    try {
+      const parameters = await getParametersByPath(
+        client,
+        path,
+        config,
+        loadOptions.retryConfig
+      )
+
+      const values: Record<string, string> = {}
+      for (const parameter of parameters) {
+        if (!parameter.Name || parameter.Value === undefined) continue
+
+        const key = transformKey(parameter.Name, path)
+        if (key) {
+          values[key] = parameter.Value
+        }
+      }
+      sources.push({ source: path, values })
+
+      console.log(
+        `Successfully loaded ${parameters.length} parameters from path: ${path}`
+      )
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Error loading parameters from ${path}: ${errorMessage}`)
+
+      if (failOnError) {
+        throw error
+      }
+    }
+  }
+
+  const result = mergeSecretSources(sources, loadOptions.mergePolicy)
+  applySecrets(result, loadOptions)
+
+  return result.secrets
+}
@@ -0,0 +1,330 @@
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import {
+  EnvProviderOptions,
+  ProviderChainConfig,
+  RetryConfig,
+  SecretConfig,
+  SecretProvider,
+  SecretSource,
+  SecretFetchResult,
+} from './types'
+import { fetchSecretsManagerSecrets, validateConfig } from './secrets-manager'
+import { mergeSecretSources, normalizeValues } from './utils'
+
+/**
+ * Check whether a loadSecrets configuration uses secret providers.
+ *
+ * @param {SecretConfig | ProviderChainConfig} config - The loadSecrets configuration.
+ * @returns {boolean} True if the configuration lists providers.
+ */
+export function isProviderChainConfig(
+  config: SecretConfig | ProviderChainConfig
+): config is ProviderChainConfig {
+  return Array.isArray((config as ProviderChainConfig).providers)
+}
+
+/**
+ * Parse the contents of a `.env` file.
+ *
+ * Supports comments, `export` prefixes, single and double quotes, and `\n`
+ * escapes inside double quotes.
+ *
+ * @param {string} content - The file contents.
+ * @returns {Record<string, string>} The parsed values.
+ *
+ * @example
+ * ```typescript
+ * parseDotenv('API_KEY="abc"\n# comment\nPORT=3000')
+ * // Output: { API_KEY: 'abc', PORT: '3000' }
+ * ```
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const values: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const match = line.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/)
+    if (!match) continue
+
+    const key = match[1] as string
+    let value = (match[2] as string).trim()
+    const quote = value[0]
+
+    if ((quote === '"' || quote === "'") && value.endsWith(quote)) {
+      value = value.slice(1, -1)
+      if (quote === '"') {
+        value = value.replace(/\\([nr\\])/g, (_, char: string) =>
+          char === 'n' ? '\n' : char === 'r' ? '\r' : '\\'
+        )
+      }
+    } else {
+      // Unquoted values may carry a trailing comment
+      value = value.replace(/\s+#.*$/, '')
+    }
+
+    values[key] = value
+  }
+
+  return values
+}
+
+/**
+ * Create a provider that loads secrets from AWS Secrets Manager.
+ *
+ * @param {SecretConfig} config - The configuration object containing the secret name and region.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for each secret.
+ * @returns {SecretProvider} A secret provider.
+ *
+ * @example
+ * ```typescript
+ * const provider = createSecretsManagerProvider({
+ *   secretName: 'prod/video-microservice/env',
+ *   region: 'us-east-2',
+ * })
+ * ```
+ */
+export function createSecretsManagerProvider(
+  config: SecretConfig,
+  retryConfig?: RetryConfig
+): SecretProvider {
+  validateConfig(config)
+
+  return {
+    name: 'secrets-manager',
+    load: async () =>
+      mergeSecretSources(
+        (
+          await fetchSecretsManagerSecrets(config, {
+            ...(retryConfig && { retryConfig }),
+          })
+        ).sources
+      ).secrets,
+  }
+}
+
+/**
+ * Create a provider that loads secrets from a `.env` file.
+ * The provider is unavailable when the file does not exist.
+ *
+ * @param {string} [path] - The path to the file. Defaults to `.env`.
+ * @returns {SecretProvider} A secret provider.
+ *
+ * @example
+ * ```typescript
+ * const provider = createDotenvProvider('.env.local')
+ * ```
+ */
+export function createDotenvProvider(path = '.env'): SecretProvider {
+  return {
+    name: `dotenv:${path}`,
+    isAvailable: () => existsSync(path),
+    load: async () => parseDotenv(await readFile(path, 'utf8')),
+  }
+}
+
+/**
+ * Create a provider that loads secrets from a local JSON or YAML file.
+ * The format is picked from the file extension. The provider is unavailable
+ * when the file does not exist.
+ *
+ * @param {string} path - The path to a `.json`, `.yaml` or `.yml` file.
+ * @returns {SecretProvider} A secret provider.
+ *
+ * @example
+ * ```typescript
+ * const provider = createFileProvider('./secrets.local.yaml')
+ * ```
+ */
+export function createFileProvider(path: string): SecretProvider {
+  const extension = extname(path).toLowerCase()
+
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(
+      `Unsupported secrets file extension "${extension}". Use .json, .yaml or .yml`
+    )
+  }
+
+  return {
+    name: `file:${path}`,
+    isAvailable: () => existsSync(path),
+    load: async () => {
+      const content = await readFile(path, 'utf8')
+      const parsed =
+        extension === '.json' ? JSON.parse(content) : parseYaml(content)
+
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Secrets file ${path} must contain an object`)
+      }
+
+      return normalizeValues(parsed)
+    },
+  }
+}
+
+/**
+ * Create a provider that reads secrets from the current environment variables.
+ *
+ * A prefix is required: without one the provider would return all of
+ * `process.env` (PATH, HOME, hostnames...), and every value would be written
+ * back and registered for redaction as a secret.
+ *
+ * @param {EnvProviderOptions} options - Only keep variables with this prefix, optionally removing it.
+ * @returns {SecretProvider} A secret provider.
+ * @throws {Error} If no prefix is given.
+ *
+ * @example
+ * ```typescript
+ * // APP_DATABASE_URL -> DATABASE_URL
+ * const provider = createEnvProvider({ prefix: 'APP_', stripPrefix: true })
+ * ```
+ */
+export function createEnvProvider(options: EnvProviderOptions): SecretProvider {
+  const prefix = options?.prefix
+  if (!prefix) {
+    throw new Error('The env provider requires a prefix')
+  }
+
+  return {
+    name: 'env',
+    load: async () => {
+      const values: Record<string, string> = {}
+
+      for (const [key, value] of Object.entries(process.env)) {
+        if (value === undefined || !key.startsWith(prefix)) continue
+        values[options.stripPrefix ? key.slice(prefix.length) : key] = value
+      }
+
+      return values
+    },
+  }
+}
+
+/**
+ * Create a provider that serves a fixed in-memory map. Useful for tests.
+ *
+ * @param {Record<string, unknown>} values - The values to serve.
+ * @param {string} [name] - The provider name used in logs.
+ * @returns {SecretProvider} A secret provider.
+ *
+ * @example
+ * ```typescript
+ * const provider = createMemoryProvider({ API_KEY: 'test-key' })
+ * ```
+ */
+export function createMemoryProvider(
+  values: Record<string, unknown>,
+  name = 'memory'
+): SecretProvider {
+  return {
+    name,
+    load: async () => normalizeValues(values),
+  }
+}
+
+/**
+ * Try each provider in order and return the first one that is available
+ * and loads successfully, together with its values.
+ *
+ * @param {SecretProvider[]} providers - The providers in fallback order.
+ * @returns {Promise<SecretSource>} A promise that resolves to the provider name and its values.
+ * @throws {Error} If every provider is unavailable or fails.
+ */
+async function loadFirstAvailable(
+  providers: SecretProvider[]
+): Promise<SecretSource> {
+  const failures: string[] = []
+
+  for (const provider of providers) {
+    try {
+      if (provider.isAvailable && !(await provider.isAvailable())) {
+        failures.push(`${provider.name}: not available`)
+        continue
+      }
+
+      const values = await provider.load()
+      console.log(`Successfully loaded secrets from ${provider.name}`)
+      return { source: provider.name, values }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      console.warn(
+        `Secret provider ${provider.name} failed, trying next: ${errorMessage}`
+      )
+      failures.push(`${provider.name}: ${errorMessage}`)
+    }
+  }
+
+  throw new Error(`All secret providers failed (${failures.join('; ')})`)
+}
+
+/**
+ * Create a provider that tries each provider in order and returns the
+ * values of the first one that is available and loads successfully.
+ *
+ * @param {SecretProvider[]} providers - The providers in fallback order.
+ * @returns {SecretProvider} A secret provider.
+ * @throws {Error} When loading, if every provider is unavailable or fails.
+ *
+ * @example
+ * ```typescript
+ * const provider = createProviderChain([
+ *   createDotenvProvider('.env.local'),
+ *   createSecretsManagerProvider({ secretName: 'prod/api', region: 'us-east-2' }),
+ * ])
+ * ```
+ */
+export function createProviderChain(
+  providers: SecretProvider[]
+): SecretProvider {
+  if (providers.length === 0) {
+    throw new Error('At least one secret provider is required')
+  }
+
+  return {
+    name: `chain(${providers.map((provider) => provider.name).join(', ')})`,
+    load: async () => (await loadFirstAvailable(providers)).values,
+  }
+}
+
+/**
+ * Load secrets through a provider chain for loadSecrets.
+ *
+ * @param {SecretProvider[]} providers - The providers in fallback order.
+ * @param {boolean} failOnError - Throw when every provider fails instead of returning no secrets.
+ * @returns {Promise<SecretFetchResult>} A promise that resolves to the values of the provider that was used.
+ */
+export async function loadFromProviders(
+  providers: SecretProvider[],
+  failOnError: boolean
+): Promise<SecretFetchResult> {
+  try {
+    if (providers.length === 0) {
+      throw new Error('At least one secret provider is required')
+    }
+
+    return { sources: [await loadFirstAvailable(providers)], failures: [] }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    console.error(`Error loading secrets: ${errorMessage}`)
+
+    if (failOnError) {
+      throw error
+    }
+
+    return {
+      sources: [],
+      failures: [
+        {
+          source: providers.map((provider) => provider.name).join(', '),
+          message: errorMessage,
+        },
+      ],
+    }
+  }
+}
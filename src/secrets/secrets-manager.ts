@@ -0,0 +1,472 @@
+import {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+  BatchGetSecretValueCommand,
+  DescribeSecretCommand,
+} from '@aws-sdk/client-secrets-manager'
+import {
+  SecretConfig,
+  RetryConfig,
+  SecretSource,
+  SecretFetchResult,
+  SecretLoadFailure,
+  SecretsManagerFetchOptions,
+  SecretReference,
+} from './types'
+import { createClientConfig, mapWithConcurrency } from './utils'
+import { retryWithBackoff } from '../resilience'
+import { SecretLoadError } from './errors'
+
+// BatchGetSecretValue accepts at most 20 secret IDs per call
+const BATCH_SIZE = 20
+const DEFAULT_CONCURRENCY = 5
+
+/**
+ * Validate the configuration object.
+ *
+ * @param {SecretConfig} config - The configuration object containing the secret name and region.
+ * @returns {void}
+ */
+export function validateConfig(config: SecretConfig): void {
+  if (!config.region) {
+    throw new Error('AWS region is required')
+  }
+
+  if (!config.secretName) {
+    throw new Error('Secret name is required')
+  }
+
+  if (config.fallbackRegions?.some((region) => !region)) {
+    throw new Error('Fallback regions must not be empty')
+  }
+}
+
+/**
+ * Normalize a secret name or reference into a reference.
+ *
+ * @param {string | SecretReference} secret - The secret name, ARN or reference.
+ * @returns {SecretReference} The secret reference.
+ */
+function toSecretReference(secret: string | SecretReference): SecretReference {
+  return typeof secret === 'string' ? { name: secret } : secret
+}
+
+/**
+ * Check whether a reference asks for a specific version instead of AWSCURRENT.
+ *
+ * @param {SecretReference} reference - The secret reference.
+ * @returns {boolean} True if a version stage or version ID is set.
+ */
+function isPinned(reference: SecretReference): boolean {
+  return !!(reference.versionId || reference.versionStage)
+}
+
+/**
+ * Describe a secret reference for logs, including the pinned version if any.
+ *
+ * @param {SecretReference} reference - The secret reference.
+ * @returns {string} The secret name, followed by its pinned version.
+ *
+ * @example
+ * ```typescript
+ * describeSecret({ name: 'prod/api', versionStage: 'AWSPREVIOUS' })
+ * // Output: 'prod/api@AWSPREVIOUS'
+ * ```
+ */
+function describeSecret(reference: SecretReference): string {
+  const version = reference.versionId || reference.versionStage
+  return version ? `${reference.name}@${version}` : reference.name
+}
+
+/**
+ * Build the cache key for a secret. The key carries the region and the
+ * credentials the secret is read with (the assumed role, or the access key
+ * ID), so callers that share a cache across accounts do not get each
+ * other's secrets.
+ *
+ * @param {SecretConfig} config - The configuration the secret is loaded with.
+ * @param {string} label - The secret name and its pinned version.
+ * @returns {string} The cache key.
+ *
+ * @example
+ * ```typescript
+ * getCacheKey(
+ *   { region: 'us-east-2', secretName: 'prod/api', roleArn: 'arn:aws:iam::123456789012:role/reader' },
+ *   'prod/api'
+ * )
+ * // Output: 'us-east-2:arn:aws:iam::123456789012:role/reader:prod/api'
+ * ```
+ */
+function getCacheKey(config: SecretConfig, label: string): string {
+  const identity = config.roleArn || config.accessKeyId
+  return identity
+    ? `${config.region}:${identity}:${label}`
+    : `${config.region}:${label}`
+}
+
+/**
+ * Fetch a single secret and parse its JSON payload.
+ *
+ * @param {SecretsManagerClient} client - The Secrets Manager client.
+ * @param {SecretReference} reference - The name or ARN of the secret, and the version to load.
+ * @returns {Promise<SecretSource>} A promise that resolves to the parsed secret and its version.
+ */
+async function getSecretValue(
+  client: SecretsManagerClient,
+  reference: SecretReference
+): Promise<SecretSource> {
+  const secretName = reference.name
+  const command = new GetSecretValueCommand({
+    SecretId: secretName,
+    ...(reference.versionId && { VersionId: reference.versionId }),
+    ...(reference.versionStage && { VersionStage: reference.versionStage }),
+  })
+
+  const response = await client.send(command)
+
+  if (!response.SecretString) {
+    throw new Error(`Secret ${describeSecret(reference)} not found or empty`)
+  }
+
+  try {
+    return {
+      source: secretName,
+      values: JSON.parse(response.SecretString),
+      ...(response.VersionId && { version: response.VersionId }),
+      ...(response.VersionStages && { versionStages: response.VersionStages }),
+    }
+  } catch (parseError) {
+    throw new Error(
+      `Failed to parse secret ${secretName} as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
+    )
+  }
+}
+
+/**
+ * Fetch several secrets with BatchGetSecretValue, 20 at a time.
+ * Secrets that the batch call could not return are left out, so the caller
+ * can load them individually and report their own errors.
+ *
+ * @param {SecretsManagerClient} client - The Secrets Manager client.
+ * @param {string[]} secretNames - The names or ARNs of the secrets.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for each batch call.
+ * @returns {Promise<(SecretSource | undefined)[]>} A promise that resolves to the secrets, in input order.
+ */
+async function batchGetSecretValues(
+  client: SecretsManagerClient,
+  secretNames: string[],
+  retryConfig?: RetryConfig
+): Promise<(SecretSource | undefined)[]> {
+  const results: (SecretSource | undefined)[] = new Array(secretNames.length)
+
+  for (let start = 0; start < secretNames.length; start += BATCH_SIZE) {
+    const chunk = secretNames.slice(start, start + BATCH_SIZE)
+    const response = await retryWithBackoff(
+      () =>
+        client.send(
+          new BatchGetSecretValueCommand({
+            SecretIdList: chunk,
+          })
+        ),
+      retryConfig
+    )
+
+    for (const secret of response.SecretValues ?? []) {
+      const offset = chunk.findIndex(
+        (name) => name === secret.Name || name === secret.ARN
+      )
+      if (offset === -1 || !secret.SecretString) continue
+
+      try {
+        results[start + offset] = {
+          source: chunk[offset] as string,
+          values: JSON.parse(secret.SecretString),
+          ...(secret.VersionId && { version: secret.VersionId }),
+          ...(secret.VersionStages && { versionStages: secret.VersionStages }),
+        }
+      } catch {
+        // Left out so the individual fetch reports the parse error
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Point a secret ARN at another region. Replicas keep the same ARN apart
+ * from the region, while plain secret names are the same everywhere.
+ *
+ * @param {string} secretId - The name or ARN of the secret.
+ * @param {string} region - The region to read the secret from.
+ * @returns {string} The secret ID to use in that region.
+ *
+ * @example
+ * ```typescript
+ * secretIdForRegion('arn:aws:secretsmanager:us-east-1:123456789012:secret:prod/api', 'us-west-2')
+ * // Output: 'arn:aws:secretsmanager:us-west-2:123456789012:secret:prod/api'
+ * ```
+ */
+export function secretIdForRegion(secretId: string, region: string): string {
+  if (!secretId.startsWith('arn:')) {
+    return secretId
+  }
+
+  const parts = secretId.split(':')
+  parts[3] = region
+  return parts.join(':')
+}
+
+/**
+ * Fetch a single secret from the first region that serves it, trying the
+ * primary region first and then each fallback region in order.
+ *
+ * @param {(region: string) => SecretsManagerClient} getClient - Returns the client for a region.
+ * @param {SecretReference} reference - The name or ARN of the secret, and the version to load.
+ * @param {string[]} regions - The primary region followed by the fallback regions.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for each region.
+ * @returns {Promise<SecretSource>} A promise that resolves to the parsed secret and the region that served it.
+ * @throws {Error} If every region fails, listing the error from each region.
+ */
+async function getSecretValueFromRegions(
+  getClient: (region: string) => SecretsManagerClient,
+  reference: SecretReference,
+  regions: string[],
+  retryConfig?: RetryConfig
+): Promise<SecretSource> {
+  const errors: string[] = []
+
+  for (const region of regions) {
+    try {
+      const secret = await retryWithBackoff(
+        () =>
+          getSecretValue(getClient(region), {
+            ...reference,
+            name: secretIdForRegion(reference.name, region),
+          }),
+        retryConfig
+      )
+
+      if (errors.length > 0) {
+        console.warn(
+          `Loaded secret ${describeSecret(reference)} from fallback region ${region}`
+        )
+      }
+
+      return { ...secret, source: reference.name, region }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+
+      if (regions.length === 1) {
+        throw error
+      }
+
+      errors.push(`${region}: ${errorMessage}`)
+    }
+  }
+
+  throw new Error(errors.join('; '))
+}
+
+/**
+ * Read the version each secret's stage points at with DescribeSecret,
+ * without fetching the secret values. Secrets pinned to a `versionId` report
+ * that version. Secrets that cannot be described report undefined, so the
+ * caller can fetch them instead.
+ *
+ * @param {SecretConfig} config - The configuration object containing the secret names and region.
+ * @param {Record<string, string>} [regions] - The region to describe each secret in, by name. Defaults to `region`.
+ * @param {RetryConfig} [retryConfig] - The retry configuration for each call.
+ * @returns {Promise<Map<string, string | undefined>>} A promise that resolves to the current version ID of each secret, by name.
+ *
+ * @example
+ * ```typescript
+ * const versions = await describeSecretVersions({
+ *   region: 'us-east-2',
+ *   secretName: ['prod/api', { name: 'prod/db', versionStage: 'AWSPENDING' }],
+ * })
+ * // Output: Map { 'prod/api' => 'a1b2...', 'prod/db' => 'c3d4...' }
+ * ```
+ */
+export async function describeSecretVersions(
+  config: SecretConfig,
+  regions: Record<string, string> = {},
+  retryConfig?: RetryConfig
+): Promise<Map<string, string | undefined>> {
+  const references = (
+    Array.isArray(config.secretName) ? config.secretName : [config.secretName]
+  ).map(toSecretReference)
+
+  const clients = new Map<string, SecretsManagerClient>()
+  const getClient = (region: string): SecretsManagerClient => {
+    let client = clients.get(region)
+    if (!client) {
+      client = new SecretsManagerClient(
+        createClientConfig({ ...config, region })
+      )
+      clients.set(region, client)
+    }
+    return client
+  }
+
+  const versions = new Map<string, string | undefined>()
+
+  await mapWithConcurrency(
+    references,
+    DEFAULT_CONCURRENCY,
+    async (reference) => {
+      if (reference.versionId) {
+        versions.set(reference.name, reference.versionId)
+        return
+      }
+
+      const region = regions[reference.name] ?? config.region
+      const stage = reference.versionStage || 'AWSCURRENT'
+
+      try {
+        const response = await retryWithBackoff(
+          () =>
+            getClient(region).send(
+              new DescribeSecretCommand({
+                SecretId: secretIdForRegion(reference.name, region),
+              })
+            ),
+          retryConfig
+        )
+        const [version] =
+          Object.entries(response.VersionIdsToStages ?? {}).find(([, stages]) =>
+            stages.includes(stage)
+          ) ?? []
+        versions.set(reference.name, version)
+      } catch {
+        versions.set(reference.name, undefined)
+      }
+    }
+  )
+
+  return versions
+}
+
+/**
+ * Fetch every secret named in the configuration.
+ *
+ * Secrets are loaded concurrently, up to `concurrency` at a time, and with
+ * BatchGetSecretValue when more than one secret is requested without a
+ * cache. If the batch call fails (for example when the role lacks the
+ * BatchGetSecretValue permission) the secrets are loaded one by one instead.
+ * Secrets pinned to a `versionStage` or `versionId` are always loaded one by
+ * one, since the batch API only returns the current version.
+ * Secrets that cannot be loaded from `region` are tried in each of
+ * `fallbackRegions` in turn, and the region that served each secret is
+ * reported on its source.
+ * The returned sources always follow the order of `secretName`.
+ *
+ * @param {SecretConfig} config - The configuration object containing the secret name and region.
+ * @param {SecretsManagerFetchOptions} [options] - Retry, concurrency, batching and failure settings.
+ * @returns {Promise<SecretFetchResult>} A promise that resolves to the loaded secrets and the secrets that failed.
+ * @throws {SecretLoadError} If `failOnError` is set and any secret failed to load.
+ */
+export async function fetchSecretsManagerSecrets(
+  config: SecretConfig,
+  options: SecretsManagerFetchOptions = {}
+): Promise<SecretFetchResult> {
+  const { retryConfig, failOnError = true } = options
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+
+  const clients = new Map<string, SecretsManagerClient>()
+  const getClient = (region = config.region): SecretsManagerClient => {
+    let client = clients.get(region)
+    if (!client) {
+      client = new SecretsManagerClient(
+        createClientConfig({ ...config, region })
+      )
+      clients.set(region, client)
+    }
+    return client
+  }
+
+  const references = (
+    Array.isArray(config.secretName) ? config.secretName : [config.secretName]
+  )
+    .filter((secret) => {
+      const name = typeof secret === 'string' ? secret : secret?.name
+      if (!name || typeof name !== 'string') {
+        console.warn('Invalid secret name provided, skipping')
+        return false
+      }
+      return true
+    })
+    .map(toSecretReference)
+
+  const results: (SecretSource | undefined)[] = new Array(references.length)
+  const batchable = references
+    .map((reference, index) => ({ reference, index }))
+    .filter(({ reference }) => !isPinned(reference))
+
+  if (options.batch !== false && !config.cache && batchable.length > 1) {
+    try {
+      const batchResults = await batchGetSecretValues(
+        getClient(),
+        batchable.map(({ reference }) => reference.name),
+        retryConfig
+      )
+      batchable.forEach(({ index }, position) => {
+        const secret = batchResults[position]
+        if (!secret) return
+        results[index] = { ...secret, region: config.region }
+        console.log(`Successfully loaded secret: ${secret.source}`)
+      })
+    } catch (error) {
+      console.warn(
+        `Batch secret retrieval failed, loading secrets individually: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  const failures: (SecretLoadFailure | undefined)[] = new Array(
+    references.length
+  )
+  const pending = references
+    .map((_, index) => index)
+    .filter((index) => !results[index])
+
+  await mapWithConcurrency(pending, concurrency, async (index) => {
+    const reference = references[index] as SecretReference
+    const label = describeSecret(reference)
+
+    try {
+      const fetchSecret = () =>
+        getSecretValueFromRegions(
+          getClient,
+          reference,
+          [config.region, ...(config.fallbackRegions ?? [])],
+          retryConfig
+        )
+
+      results[index] = config.cache
+        ? await config.cache.get(getCacheKey(config, label), fetchSecret)
+        : await fetchSecret()
+
+      console.log(`Successfully loaded secret: ${label}`)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Error loading secret ${label}: ${errorMessage}`)
+      failures[index] = { source: reference.name, message: errorMessage }
+    }
+  })
+
+  const result: SecretFetchResult = {
+    sources: results.filter((secret): secret is SecretSource => !!secret),
+    failures: failures.filter(
+      (failure): failure is SecretLoadFailure => !!failure
+    ),
+  }
+
+  if (failOnError && result.failures.length > 0) {
+    throw new SecretLoadError(result.failures)
+  }
+
+  return result
+}
@@ -1,17 +1,217 @@
-export interface SecretConfig {
+import type { SecretsCache } from './cache'
+import type { AwsCredentialOptions, AwsCredentialsProvider } from '../aws/types'
+import type { RetryConfig } from '../resilience/types'
+import type { RedactionOptions } from '../redaction/types'
+
+export type { RetryConfig }
+
+export interface AwsClientOptions extends AwsCredentialOptions {
   region: string
-  accessKeyId?: string
-  secretAccessKey?: string
-  secretName: string | string[]
 }
 
-export interface RetryConfig {
+export interface AwsClientConfig {
+  region: string
   maxAttempts: number
-  delayMs: number
+  credentials?:
+    | {
+        accessKeyId: string
+        secretAccessKey: string
+      }
+    | AwsCredentialsProvider
+}
+
+export interface SecretReference {
+  name: string
+  versionStage?: string
+  versionId?: string
+}
+
+export interface SecretConfig extends AwsClientOptions {
+  secretName: string | SecretReference | (string | SecretReference)[]
+  fallbackRegions?: string[]
+  cache?: SecretsCache
+}
+
+export interface SecretKeySchema {
+  required?: boolean
+  allowEmpty?: boolean
+  pattern?: RegExp
 }
 
+export type MergePolicy = 'override' | 'preserve-existing' | 'error-on-conflict'
+
 export interface LoadSecretsOptions {
   retryConfig?: RetryConfig
   validateSecrets?: boolean
   failOnError?: boolean
+  requiredKeys?: string[]
+  schema?: Record<string, SecretKeySchema>
+  mergePolicy?: MergePolicy
+  concurrency?: number
+  batch?: boolean
+  interpolate?: boolean
+  redact?: boolean | RedactionOptions
+}
+
+export interface InterpolationOptions {
+  env?: Record<string, string | undefined>
+  resolveSecret?: (name: string) => Promise<Record<string, string>>
+}
+
+export interface UnresolvedReference {
+  key: string
+  reference: string
+  reason?: string
+}
+
+export interface SecretSource {
+  source: string
+  values: Record<string, string>
+  version?: string
+  versionStages?: string[]
+  region?: string
+}
+
+export interface SecretProvenance {
+  source: string
+  version?: string
+  versionStages?: string[]
+  region?: string
+}
+
+export interface LoadedSecretRecord extends SecretProvenance {
+  loadedAt: Date
+}
+
+export interface SecretConflict {
+  key: string
+  sources: string[]
+}
+
+export interface SecretLoadFailure {
+  source: string
+  message: string
+}
+
+export interface SecretsManagerFetchOptions {
+  retryConfig?: RetryConfig
+  failOnError?: boolean
+  concurrency?: number
+  batch?: boolean
+}
+
+export interface SecretFetchResult {
+  sources: SecretSource[]
+  failures: SecretLoadFailure[]
+}
+
+export interface LoadSecretsResult {
+  secrets: Record<string, string>
+  provenance: Record<string, SecretProvenance>
+  conflicts: SecretConflict[]
+  failures: SecretLoadFailure[]
+}
+
+export interface SecretVersionChange {
+  previous?: string
+  current?: string
+}
+
+export interface SecretChangeDiff {
+  added: string[]
+  removed: string[]
+  changed: string[]
+  versions: Record<string, SecretVersionChange>
+}
+
+export type SecretChangeListener = (
+  diff: SecretChangeDiff
+) => void | Promise<void>
+
+export interface WatchSecretsOptions {
+  intervalMs?: number
+  loadOptions?: LoadSecretsOptions
+  onChange?: SecretChangeListener
+  onError?: (error: Error) => void
+}
+
+export interface SecretWriteOptions extends Partial<AwsClientOptions> {
+  dryRun?: boolean
+  allowDelete?: boolean
+  description?: string
+  kmsKeyId?: string
+  retryConfig?: RetryConfig
+}
+
+export interface SecretKeyChange {
+  key: string
+  previous?: string
+  value?: string
+}
+
+export interface SecretWriteDiff {
+  added: SecretKeyChange[]
+  removed: SecretKeyChange[]
+  changed: SecretKeyChange[]
+}
+
+export interface SecretWriteResult {
+  secretName: string
+  action: 'created' | 'updated' | 'unchanged'
+  dryRun: boolean
+  diff: SecretWriteDiff
+  versionId?: string
+}
+
+export interface SecretsCacheOptions {
+  ttlMs?: number
+  refreshAheadMs?: number
+  maxStaleMs?: number
+  backgroundRefresh?: boolean
+}
+
+export interface ParameterConfig extends AwsClientOptions {
+  path: string | string[]
+  recursive?: boolean
+  withDecryption?: boolean
+  transformKey?: (name: string, path: string) => string
+}
+
+export interface SecretProvider {
+  readonly name: string
+  isAvailable?: () => boolean | Promise<boolean>
+  load: () => Promise<Record<string, string>>
+}
+
+export interface ProviderChainConfig {
+  providers: SecretProvider[]
+}
+
+export interface EnvProviderOptions {
+  prefix: string
+  stripPrefix?: boolean
+}
+
+export interface SecretInventoryOptions {
+  expectedKeys?: string[]
+  print?: boolean
+  previewChars?: number
+}
+
+export interface SecretInventoryEntry {
+  key: string
+  source: string
+  version?: string
+  versionStages?: string[]
+  region?: string
+  loadedAt: string
+  length: number
+  preview: string
+  inEnvironment: boolean
+}
+
+export interface SecretInventory {
+  entries: SecretInventoryEntry[]
+  missingKeys: string[]
+  unexpectedKeys: string[]
 }
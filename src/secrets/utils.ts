@@ -0,0 +1,376 @@
+import {
+  AwsClientConfig,
+  AwsClientOptions,
+  LoadSecretsOptions,
+  LoadSecretsResult,
+  LoadedSecretRecord,
+  MergePolicy,
+  RetryConfig,
+  SecretSource,
+} from './types'
+import { SecretConflictError, SecretValidationError } from './errors'
+import { createCredentialsProvider, usesAssumedRole } from '../aws'
+import { DEFAULT_RETRY_CONFIG } from '../resilience'
+import { registerSecretValues } from '../redaction'
+import { AwsCredentialsProvider } from '../aws/types'
+
+const ENVIRONMENT_SOURCE = 'process.env'
+
+// Keys written to process.env by a previous load, with where they came from.
+// Reloads overwrite them without reporting a conflict with the environment.
+const loadedSecrets = new Map<string, LoadedSecretRecord>()
+
+// Assumed-role credential providers, shared by every client with the same
+// role so temporary credentials are reused until they need a refresh.
+const roleCredentialProviders = new Map<string, AwsCredentialsProvider>()
+
+/**
+ * Create an AWS SDK client configuration (Secrets Manager, SSM).
+ *
+ * When `roleArn` or `webIdentityTokenFile` is set, the client assumes that
+ * role and refreshes its temporary credentials before they expire.
+ *
+ * @param {AwsClientOptions} config - The configuration object containing the region and optional credentials.
+ * @returns {AwsClientConfig} An AWS SDK client configuration.
+ *
+ * @example
+ * ```typescript
+ * const clientConfig = createClientConfig({
+ *   region: 'us-east-2',
+ * })
+ * // Output: { region: 'us-east-2', maxAttempts: 3 }
+ * ```
+ */
+export function createClientConfig(config: AwsClientOptions): AwsClientConfig {
+  const clientConfig: AwsClientConfig = {
+    region: config.region,
+    maxAttempts: DEFAULT_RETRY_CONFIG.maxAttempts,
+  }
+
+  if (usesAssumedRole(config)) {
+    const key = JSON.stringify([
+      config.region,
+      config.roleArn,
+      config.roleSessionName,
+      config.externalId,
+      config.durationSeconds,
+      config.webIdentityTokenFile,
+      config.accessKeyId,
+    ])
+    let provider = roleCredentialProviders.get(key)
+    if (!provider) {
+      provider = createCredentialsProvider(config, config.region)
+      roleCredentialProviders.set(key, provider)
+    }
+
+    console.log('Using AWS credentials from an assumed role')
+    clientConfig.credentials = provider
+    return clientConfig
+  }
+
+  // Use IAM roles if available, otherwise use provided credentials
+  if (
+    process.env['AWS_ACCESS_KEY_ID'] &&
+    process.env['AWS_SECRET_ACCESS_KEY']
+  ) {
+    // Use environment variables (IAM roles or default credentials)
+    console.log('Using AWS credentials from environment variables')
+  } else if (config.accessKeyId && config.secretAccessKey) {
+    // Use provided credentials
+    clientConfig.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    }
+  }
+
+  return clientConfig
+}
+
+/**
+ * Normalize the second argument of loadSecrets into LoadSecretsOptions.
+ * A bare RetryConfig is still accepted for backwards compatibility.
+ *
+ * @param {RetryConfig | LoadSecretsOptions} [options] - The retry configuration or load options.
+ * @returns {LoadSecretsOptions} The load options.
+ */
+export function resolveLoadOptions(
+  options?: RetryConfig | LoadSecretsOptions
+): LoadSecretsOptions {
+  if (!options) {
+    return {}
+  }
+
+  if ('maxAttempts' in options && 'delayMs' in options) {
+    return { retryConfig: options }
+  }
+
+  return options as LoadSecretsOptions
+}
+
+/**
+ * Check the loaded values against the required keys and schema.
+ * All problems are collected and reported in a single SecretValidationError.
+ *
+ * @param {Record<string, string | undefined>} values - The values to check.
+ * @param {LoadSecretsOptions} options - The load options with the required keys and schema.
+ * @param {string[]} loadedKeys - The keys loaded from Secrets Manager.
+ * @returns {void}
+ * @throws {SecretValidationError} If any key is missing, empty or invalid.
+ */
+export function validateSecretValues(
+  values: Record<string, string | undefined>,
+  options: LoadSecretsOptions,
+  loadedKeys: string[]
+): void {
+  const missingKeys: string[] = []
+  const emptyKeys: string[] = []
+  const invalidKeys: string[] = []
+
+  const rules = { ...options.schema }
+  for (const key of options.requiredKeys ?? []) {
+    rules[key] = { required: true, ...rules[key] }
+  }
+
+  // Without explicit rules, every loaded key must at least be non-empty
+  if (!options.requiredKeys && !options.schema) {
+    for (const key of loadedKeys) {
+      rules[key] = { required: true }
+    }
+  }
+
+  for (const [key, rule] of Object.entries(rules)) {
+    const value = values[key]
+
+    if (value === undefined || value === null) {
+      if (rule.required !== false) missingKeys.push(key)
+      continue
+    }
+
+    if (String(value).trim() === '') {
+      if (!rule.allowEmpty) emptyKeys.push(key)
+      continue
+    }
+
+    if (rule.pattern && !rule.pattern.test(String(value))) {
+      invalidKeys.push(key)
+    }
+  }
+
+  if (missingKeys.length || emptyKeys.length || invalidKeys.length) {
+    throw new SecretValidationError({ missingKeys, emptyKeys, invalidKeys })
+  }
+}
+
+/**
+ * Run an async function over a list with at most `limit` calls in flight.
+ * Results keep the order of the input list.
+ *
+ * @param {T[]} items - The items to process.
+ * @param {number} limit - The maximum number of concurrent calls.
+ * @param {(item: T, index: number) => Promise<R>} fn - The function to run for each item.
+ * @returns {Promise<R[]>} A promise that resolves to the results, in input order.
+ *
+ * @example
+ * ```typescript
+ * const values = await mapWithConcurrency(names, 5, (name) => fetchSecret(name))
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index] as T, index)
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+
+  return results
+}
+
+/**
+ * Convert parsed values to strings, serializing nested objects as JSON.
+ *
+ * @param {Record<string, unknown>} values - The parsed values.
+ * @returns {Record<string, string>} The values as strings, without null or undefined values.
+ *
+ * @example
+ * ```typescript
+ * normalizeValues({ PORT: 3000, DEBUG: false, DB: { host: 'db' }, EMPTY: null })
+ * // Output: { PORT: '3000', DEBUG: 'false', DB: '{"host":"db"}' }
+ * ```
+ */
+export function normalizeValues(
+  values: Record<string, unknown>
+): Record<string, string> {
+  const normalized: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue
+    normalized[key] =
+      typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+
+  return normalized
+}
+
+/**
+ * Merge the values of several secrets in order, recording where each key
+ * came from and which keys are defined more than once.
+ *
+ * With `override` later secrets win, and with `preserve-existing` the first
+ * value wins. Keys already set in the environment by something other than a
+ * previous load are reported as conflicts with `process.env`.
+ *
+ * @param {SecretSource[]} sources - The loaded secrets, in merge order.
+ * @param {MergePolicy} [policy] - The merge policy. Defaults to `override`.
+ * @returns {LoadSecretsResult} The merged secrets, their provenance and any conflicts.
+ *
+ * @example
+ * ```typescript
+ * mergeSecretSources([
+ *   { source: 'shared', values: { API_KEY: 'a' } },
+ *   { source: 'service', values: { API_KEY: 'b' } },
+ * ])
+ * // Output: { secrets: { API_KEY: 'b' }, provenance: { API_KEY: { source: 'service' } }, conflicts: [...] }
+ * ```
+ */
+export function mergeSecretSources(
+  sources: SecretSource[],
+  policy: MergePolicy = 'override'
+): LoadSecretsResult {
+  const result: LoadSecretsResult = {
+    secrets: {},
+    provenance: {},
+    conflicts: [],
+    failures: [],
+  }
+
+  for (const { source, values, version, versionStages, region } of sources) {
+    for (const [key, rawValue] of Object.entries(values)) {
+      if (!key || rawValue === undefined || rawValue === null) continue
+
+      const value = String(rawValue)
+      const previous = result.provenance[key]
+
+      if (previous) {
+        if (result.secrets[key] !== value) {
+          result.conflicts.push({ key, sources: [previous.source, source] })
+        }
+        if (policy !== 'override') continue
+      } else {
+        const existing = process.env[key]
+        if (
+          existing !== undefined &&
+          existing !== value &&
+          !loadedSecrets.has(key)
+        ) {
+          result.conflicts.push({ key, sources: [ENVIRONMENT_SOURCE, source] })
+        }
+      }
+
+      result.secrets[key] = value
+      result.provenance[key] = {
+        source,
+        ...(version && { version }),
+        ...(versionStages && { versionStages }),
+        ...(region && { region }),
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Check the merged result for conflicts and required keys, then write the
+ * values into process.env according to the merge policy. Shared by every
+ * loader so they behave the same way after fetching.
+ *
+ * Unless `redact` is false, the written values are registered for redaction
+ * so the loggers and Slack notifications mask them.
+ *
+ * @param {LoadSecretsResult} result - The merged secrets.
+ * @param {LoadSecretsOptions} options - The load options with the merge policy and validation settings.
+ * @returns {void}
+ * @throws {SecretConflictError} If the policy is `error-on-conflict` and a key is defined more than once.
+ * @throws {SecretValidationError} If a required key is missing, empty or invalid.
+ */
+export function applySecrets(
+  result: LoadSecretsResult,
+  options: LoadSecretsOptions
+): void {
+  const policy = options.mergePolicy || 'override'
+  const { secrets, conflicts } = result
+
+  if (conflicts.length > 0) {
+    if (policy === 'error-on-conflict') {
+      throw new SecretConflictError(conflicts)
+    }
+
+    for (const conflict of conflicts) {
+      const [kept, shadowed] =
+        policy === 'override'
+          ? [conflict.sources[1], conflict.sources[0]]
+          : [conflict.sources[0], conflict.sources[1]]
+      console.warn(
+        `Secret key ${conflict.key} from ${shadowed} is shadowed by ${kept}`
+      )
+    }
+  }
+
+  const preserved = new Set(
+    policy === 'preserve-existing'
+      ? conflicts
+          .filter((conflict) => conflict.sources[0] === ENVIRONMENT_SOURCE)
+          .map((conflict) => conflict.key)
+      : []
+  )
+
+  const shouldValidate =
+    options.validateSecrets ?? !!(options.requiredKeys || options.schema)
+
+  if (shouldValidate) {
+    const effective: Record<string, string | undefined> = {
+      ...process.env,
+      ...secrets,
+    }
+    preserved.forEach((key) => (effective[key] = process.env[key]))
+
+    validateSecretValues(effective, options, Object.keys(secrets))
+  }
+
+  // Set environment variables
+  const loadedAt = new Date()
+  const written: Record<string, string> = {}
+  Object.entries(secrets).forEach(([key, value]) => {
+    if (preserved.has(key)) return
+    process.env[key] = value
+    written[key] = value
+    loadedSecrets.set(key, { ...result.provenance[key]!, loadedAt })
+  })
+
+  if (options.redact !== false) {
+    registerSecretValues(
+      written,
+      typeof options.redact === 'object' ? options.redact : {}
+    )
+  }
+}
+
+/**
+ * Get the keys written to process.env by the loaders, with where they came from.
+ *
+ * @returns {ReadonlyMap<string, LoadedSecretRecord>} The loaded keys and their provenance.
+ */
+export function getLoadedSecrets(): ReadonlyMap<string, LoadedSecretRecord> {
+  return loadedSecrets
+}
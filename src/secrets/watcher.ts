@@ -0,0 +1,385 @@
+import {
+  LoadSecretsOptions,
+  SecretChangeDiff,
+  SecretChangeListener,
+  SecretConfig,
+  SecretReference,
+  SecretSource,
+  WatchSecretsOptions,
+} from './types'
+import {
+  describeSecretVersions,
+  fetchSecretsManagerSecrets,
+  validateConfig,
+} from './secrets-manager'
+import { applySecrets, mergeSecretSources } from './utils'
+import { createSecretResolver, interpolateValues } from './interpolation'
+
+const DEFAULT_WATCH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * Watches Secrets Manager secrets for rotation.
+ *
+ * Every `intervalMs` the `VersionId` of each secret is read with
+ * DescribeSecret and compared with the version loaded before, and only the
+ * secrets whose version changed are fetched again. The new values are merged
+ * and written to `process.env` like loadSecrets does, keys that disappeared
+ * are removed from `process.env`, and every `onChange` listener is called
+ * with the added, removed and changed keys. When the first load failed, the
+ * first successful load after it is reported as a change too.
+ *
+ * Use watchSecrets to create a watcher that is already loaded and polling.
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watchSecrets(
+ *   { secretName: 'prod/video-microservice/env', region: 'us-east-2' },
+ *   { intervalMs: 60 * 1000 }
+ * )
+ *
+ * watcher.onChange(async (diff) => {
+ *   if (diff.changed.includes('DATABASE_PASSWORD')) {
+ *     await pool.reconnect()
+ *   }
+ * })
+ *
+ * // On shutdown
+ * watcher.stop()
+ * ```
+ */
+export class SecretWatcher {
+  private readonly listeners = new Set<SecretChangeListener>()
+  private sources = new Map<string, SecretSource>()
+  private secrets: Record<string, string> = {}
+  private timer: NodeJS.Timeout | undefined
+  private checking: Promise<SecretChangeDiff | null> | undefined
+  private started = false
+  private readonly intervalMs: number
+  private readonly loadOptions: LoadSecretsOptions
+
+  constructor(
+    private readonly config: SecretConfig,
+    private readonly options: WatchSecretsOptions = {}
+  ) {
+    validateConfig(config)
+
+    this.intervalMs = options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS
+    this.loadOptions = options.loadOptions || {}
+
+    if (this.intervalMs <= 0) {
+      throw new Error('Watch interval must be greater than zero')
+    }
+
+    if (options.onChange) {
+      this.listeners.add(options.onChange)
+    }
+  }
+
+  /**
+   * Loads the secrets into process.env and starts polling for new versions.
+   *
+   * @returns {Promise<Record<string, string>>} A promise that resolves to the loaded secrets.
+   * @throws {SecretLoadError} If `failOnError` is set and any secret failed to load.
+   */
+  async start(): Promise<Record<string, string>> {
+    await this.load(this.loadOptions.failOnError ?? true)
+    this.schedule()
+    return { ...this.secrets }
+  }
+
+  /**
+   * Registers a listener called after a rotation was applied to process.env.
+   *
+   * @param {SecretChangeListener} listener - The listener to call with the diff.
+   * @returns {() => void} A function that removes the listener.
+   */
+  onChange(listener: SecretChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Checks for new secret versions now, without waiting for the next poll.
+   *
+   * @returns {Promise<SecretChangeDiff | null>} A promise that resolves to the applied diff, or null when no version changed.
+   */
+  check(): Promise<SecretChangeDiff | null> {
+    if (!this.checking) {
+      this.checking = this.load(false).finally(() => {
+        this.checking = undefined
+      })
+    }
+    return this.checking
+  }
+
+  /**
+   * Stops polling. Secrets already in process.env are left untouched.
+   *
+   * @returns {void}
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  /**
+   * Whether the watcher is polling.
+   */
+  get running(): boolean {
+    return this.timer !== undefined
+  }
+
+  /**
+   * Schedules the next poll. The timer does not keep the process alive.
+   */
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.check()
+        .catch((error) => this.reportError(error))
+        .finally(() => {
+          if (this.timer) this.schedule()
+        })
+    }, this.intervalMs)
+    this.timer.unref()
+  }
+
+  /**
+   * Fetches the secrets whose version changed, and applies and reports their values.
+   */
+  private async load(failOnError: boolean): Promise<SecretChangeDiff | null> {
+    // Always ask Secrets Manager, a cache would hide the new version
+    const config: SecretConfig = { ...this.config }
+    delete config.cache
+
+    // Later loads are reported, even when the first one failed
+    const initial = !this.started
+    this.started = true
+
+    if (!initial) {
+      const changed = await this.findChangedSecrets(config)
+      if (changed.length === 0) {
+        return null
+      }
+      config.secretName = changed
+    }
+
+    const { sources, failures } = await fetchSecretsManagerSecrets(config, {
+      failOnError,
+      ...(this.loadOptions.retryConfig && {
+        retryConfig: this.loadOptions.retryConfig,
+      }),
+      ...(this.loadOptions.concurrency !== undefined && {
+        concurrency: this.loadOptions.concurrency,
+      }),
+      ...(this.loadOptions.batch !== undefined && {
+        batch: this.loadOptions.batch,
+      }),
+    })
+
+    failures.forEach((failure) =>
+      this.reportError(
+        new Error(
+          `Failed to check secret ${failure.source} for rotation: ${failure.message}`
+        )
+      )
+    )
+
+    const versions: SecretChangeDiff['versions'] = {}
+    for (const source of sources) {
+      const previous = this.sources.get(source.source)
+      if (!previous || previous.version !== source.version) {
+        versions[source.source] = {
+          ...(previous?.version && { previous: previous.version }),
+          ...(source.version && { current: source.version }),
+        }
+      }
+    }
+
+    if (!initial && Object.keys(versions).length === 0) {
+      return null
+    }
+
+    // Secrets that failed this time keep their previous values
+    const next = new Map(this.sources)
+    sources.forEach((source) => next.set(source.source, source))
+    const ordered = [...next.values()].sort(
+      (a, b) => this.order(a.source) - this.order(b.source)
+    )
+
+    const result = mergeSecretSources(ordered, this.loadOptions.mergePolicy)
+    if (this.loadOptions.interpolate) {
+      result.secrets = await interpolateValues(result.secrets, {
+        resolveSecret: createSecretResolver(
+          this.config,
+          this.loadOptions.retryConfig
+        ),
+      })
+    }
+    applySecrets(result, this.loadOptions)
+
+    const diff = diffSecrets(this.secrets, result.secrets, versions)
+    diff.removed.forEach((key) => delete process.env[key])
+
+    this.sources = next
+    this.secrets = result.secrets
+
+    if (initial) {
+      return diff
+    }
+
+    console.log(
+      `Secret rotation detected for ${Object.keys(versions).join(', ')}: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`
+    )
+    await this.notify(diff)
+
+    return diff
+  }
+
+  /**
+   * Polls the version of every secret and returns the ones to fetch again:
+   * those whose version changed, that were never loaded, or whose version
+   * could not be read.
+   */
+  private async findChangedSecrets(
+    config: SecretConfig
+  ): Promise<(string | SecretReference)[]> {
+    const regions: Record<string, string> = {}
+    this.sources.forEach((source) => {
+      if (source.region) regions[source.source] = source.region
+    })
+
+    const versions = await describeSecretVersions(
+      config,
+      regions,
+      this.loadOptions.retryConfig
+    )
+    const names = Array.isArray(config.secretName)
+      ? config.secretName
+      : [config.secretName]
+
+    return names.filter((name) => {
+      const source = typeof name === 'string' ? name : name.name
+      const version = versions.get(source)
+      return (
+        version === undefined || version !== this.sources.get(source)?.version
+      )
+    })
+  }
+
+  /**
+   * Position of a secret in the configuration, so merges keep their order.
+   */
+  private order(source: string): number {
+    const names = Array.isArray(this.config.secretName)
+      ? this.config.secretName
+      : [this.config.secretName]
+    return names.findIndex(
+      (name) => (typeof name === 'string' ? name : name.name) === source
+    )
+  }
+
+  /**
+   * Calls every listener, logging listener errors instead of throwing them.
+   */
+  private async notify(diff: SecretChangeDiff): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(diff)
+      } catch (error) {
+        console.error(
+          'Secret change listener failed:',
+          error instanceof Error ? error.message : 'Unknown error'
+        )
+      }
+    }
+  }
+
+  /**
+   * Passes errors to `onError`, or logs them as warnings.
+   */
+  private reportError(error: unknown): void {
+    if (this.options.onError) {
+      this.options.onError(
+        error instanceof Error ? error : new Error(String(error))
+      )
+      return
+    }
+
+    console.warn(
+      'Secret rotation check failed:',
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+/**
+ * Compare two sets of secrets key by key.
+ *
+ * @param {Record<string, string>} previous - The secrets before the rotation.
+ * @param {Record<string, string>} current - The secrets after the rotation.
+ * @param {SecretChangeDiff['versions']} versions - The secrets whose version changed.
+ * @returns {SecretChangeDiff} The added, removed and changed keys.
+ *
+ * @example
+ * ```typescript
+ * diffSecrets({ A: '1', B: '2' }, { A: '1', B: '3', C: '4' }, {})
+ * // Output: { added: ['C'], removed: [], changed: ['B'], versions: {} }
+ * ```
+ */
+export function diffSecrets(
+  previous: Record<string, string>,
+  current: Record<string, string>,
+  versions: SecretChangeDiff['versions']
+): SecretChangeDiff {
+  return {
+    added: Object.keys(current).filter((key) => !(key in previous)),
+    removed: Object.keys(previous).filter((key) => !(key in current)),
+    changed: Object.keys(current).filter(
+      (key) => key in previous && previous[key] !== current[key]
+    ),
+    versions,
+  }
+}
+
+/**
+ * Load secrets from AWS Secrets Manager and keep them up to date after rotations.
+ *
+ * The secrets are loaded into `process.env` right away, then their
+ * `VersionId` is polled with DescribeSecret every `intervalMs` (5 minutes by
+ * default). When a rotation is detected the new values are fetched and
+ * written to `process.env`, and the `onChange` listeners receive the added,
+ * removed and changed keys, so database pools, loggers or Slack clients can
+ * be rebuilt without a restart.
+ *
+ * @param {SecretConfig} config - The configuration object containing the secret name and region.
+ * @param {WatchSecretsOptions} [options] - The poll interval, load options and listeners.
+ * @returns {Promise<SecretWatcher>} A promise that resolves to the running watcher.
+ * @throws {SecretLoadError} If the first load fails and `failOnError` is not disabled.
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watchSecrets(
+ *   { secretName: 'prod/video-microservice/env', region: 'us-east-2' },
+ *   {
+ *     intervalMs: 60 * 1000,
+ *     onChange: (diff) => {
+ *       if (diff.changed.includes('SLACK_BOT_TOKEN')) {
+ *         notifier = new SlackNotifier({ token: process.env.SLACK_BOT_TOKEN })
+ *       }
+ *     },
+ *   }
+ * )
+ * ```
+ */
+export async function watchSecrets(
+  config: SecretConfig,
+  options: WatchSecretsOptions = {}
+): Promise<SecretWatcher> {
+  const watcher = new SecretWatcher(config, options)
+  await watcher.start()
+  return watcher
+}
@@ -0,0 +1,267 @@
+import { basename, extname } from 'path'
+import {
+  CreateSecretCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager'
+import {
+  SecretKeyChange,
+  SecretWriteDiff,
+  SecretWriteOptions,
+  SecretWriteResult,
+} from './types'
+import { SecretDeletionError } from './errors'
+import { createClientConfig, normalizeValues } from './utils'
+import { maskValue } from './inventory'
+import { createDotenvProvider, createFileProvider } from './providers'
+import { retryWithBackoff } from '../resilience'
+
+/**
+ * Compute the key-level difference between the stored and desired values.
+ * Values in the diff are masked.
+ *
+ * @param {Record<string, string>} current - The values stored in the secret.
+ * @param {Record<string, string>} desired - The values to write.
+ * @returns {SecretWriteDiff} The added, removed and changed keys.
+ *
+ * @example
+ * ```typescript
+ * diffSecretValues({ A: '1', B: '2' }, { B: '3', C: '4' })
+ * // Output: {
+ * //   added: [{ key: 'C', value: '****' }],
+ * //   removed: [{ key: 'A', previous: '****' }],
+ * //   changed: [{ key: 'B', previous: '****', value: '****' }],
+ * // }
+ * ```
+ */
+export function diffSecretValues(
+  current: Record<string, string>,
+  desired: Record<string, string>
+): SecretWriteDiff {
+  const diff: SecretWriteDiff = { added: [], removed: [], changed: [] }
+
+  for (const [key, value] of Object.entries(desired)) {
+    const previous = current[key]
+    if (previous === undefined) {
+      diff.added.push({ key, value: maskValue(value) })
+    } else if (previous !== value) {
+      diff.changed.push({
+        key,
+        previous: maskValue(previous),
+        value: maskValue(value),
+      })
+    }
+  }
+
+  for (const [key, previous] of Object.entries(current)) {
+    if (!(key in desired)) {
+      diff.removed.push({ key, previous: maskValue(previous) })
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Summarize a diff for logs, e.g. `+API_KEY ~DATABASE_URL -OLD_TOKEN`.
+ *
+ * @param {SecretWriteDiff} diff - The diff to summarize.
+ * @returns {string} The changed keys, prefixed with `+`, `~` or `-`.
+ */
+function formatDiff(diff: SecretWriteDiff): string {
+  const keys = (prefix: string, changes: SecretKeyChange[]) =>
+    changes.map((change) => `${prefix}${change.key}`)
+
+  return [
+    ...keys('+', diff.added),
+    ...keys('~', diff.changed),
+    ...keys('-', diff.removed),
+  ].join(' ')
+}
+
+/**
+ * Read the current JSON values of a secret.
+ *
+ * @param {SecretsManagerClient} client - The Secrets Manager client.
+ * @param {string} secretName - The name or ARN of the secret.
+ * @param {SecretWriteOptions} options - The retry configuration.
+ * @returns {Promise<Record<string, string> | undefined>} The stored values as strings, or undefined if the secret does not exist.
+ * @throws {Error} If the stored value is not a JSON object.
+ */
+async function readCurrentValues(
+  client: SecretsManagerClient,
+  secretName: string,
+  options: SecretWriteOptions
+): Promise<Record<string, string> | undefined> {
+  let secretString: string | undefined
+
+  try {
+    const response = await retryWithBackoff(
+      () => client.send(new GetSecretValueCommand({ SecretId: secretName })),
+      options.retryConfig
+    )
+    secretString = response.SecretString
+  } catch (error) {
+    if ((error as { name?: string }).name === 'ResourceNotFoundException') {
+      return undefined
+    }
+    throw error
+  }
+
+  if (!secretString) {
+    return {}
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(secretString)
+  } catch {
+    parsed = undefined
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      `Secret ${secretName} does not contain a JSON object and cannot be updated key by key`
+    )
+  }
+
+  // Stored numbers, booleans and objects compare and mask as strings
+  return normalizeValues(parsed as Record<string, unknown>)
+}
+
+/**
+ * Create a secret, or write a new version of it, from a set of key/value pairs.
+ *
+ * The stored JSON is compared with `values` key by key. A new version is
+ * written only when something changed, and keys missing from `values` are
+ * only deleted when `allowDelete` is set. With `dryRun`, nothing is written
+ * and the result describes what would change. Values in the diff are masked.
+ *
+ * The region defaults to `AWS_REGION`.
+ *
+ * @param {string} secretName - The name or ARN of the secret.
+ * @param {Record<string, string>} values - The complete set of values the secret should contain.
+ * @param {SecretWriteOptions} [options] - Region, credentials, dry run and deletion settings.
+ * @returns {Promise<SecretWriteResult>} A promise that resolves to the action taken and the diff.
+ * @throws {SecretDeletionError} If keys would be deleted and `allowDelete` is not set.
+ *
+ * @example
+ * ```typescript
+ * const result = await createOrUpdateSecret(
+ *   'prod/video-microservice/env',
+ *   { DATABASE_URL: 'postgres://...', API_KEY: 'sk_live_...' },
+ *   { region: 'us-east-2', dryRun: true }
+ * )
+ * // Output: { secretName: 'prod/video-microservice/env', action: 'updated', dryRun: true, diff: { added: [...], removed: [], changed: [...] } }
+ * ```
+ */
+export async function createOrUpdateSecret(
+  secretName: string,
+  values: Record<string, string>,
+  options: SecretWriteOptions = {}
+): Promise<SecretWriteResult> {
+  const region = options.region || process.env['AWS_REGION']
+  if (!region) {
+    throw new Error('AWS region is required')
+  }
+  if (!secretName) {
+    throw new Error('Secret name is required')
+  }
+
+  const client = new SecretsManagerClient(
+    createClientConfig({ ...options, region })
+  )
+  const dryRun = options.dryRun ?? false
+  const current = await readCurrentValues(client, secretName, options)
+  const diff = diffSecretValues(current ?? {}, values)
+
+  if (diff.removed.length > 0 && !options.allowDelete) {
+    throw new SecretDeletionError(secretName, diff)
+  }
+
+  const action = !current
+    ? 'created'
+    : diff.added.length || diff.changed.length || diff.removed.length
+      ? 'updated'
+      : 'unchanged'
+
+  if (dryRun || action === 'unchanged') {
+    console.log(
+      action === 'unchanged'
+        ? `Secret ${secretName} is up to date`
+        : `Dry run: secret ${secretName} would be ${action}: ${formatDiff(diff)}`
+    )
+    return { secretName, action, dryRun, diff }
+  }
+
+  const secretString = JSON.stringify(values)
+  const response = await retryWithBackoff(
+    (): Promise<{ VersionId?: string | undefined }> =>
+      action === 'created'
+        ? client.send(
+            new CreateSecretCommand({
+              Name: secretName,
+              SecretString: secretString,
+              ...(options.description && { Description: options.description }),
+              ...(options.kmsKeyId && { KmsKeyId: options.kmsKeyId }),
+            })
+          )
+        : client.send(
+            new PutSecretValueCommand({
+              SecretId: secretName,
+              SecretString: secretString,
+            })
+          ),
+    options.retryConfig
+  )
+
+  console.log(`Secret ${secretName} ${action}: ${formatDiff(diff)}`)
+
+  return {
+    secretName,
+    action,
+    dryRun,
+    diff,
+    ...(response.VersionId && { versionId: response.VersionId }),
+  }
+}
+
+/**
+ * Write the contents of a local file to a secret with createOrUpdateSecret.
+ *
+ * `.json`, `.yaml` and `.yml` files must contain an object, and nested values
+ * are stored as JSON strings. Any other file whose name contains `.env` is
+ * read as a dotenv file.
+ *
+ * @param {string} path - The file to read.
+ * @param {string} secretName - The name or ARN of the secret.
+ * @param {SecretWriteOptions} [options] - Region, credentials, dry run and deletion settings.
+ * @returns {Promise<SecretWriteResult>} A promise that resolves to the action taken and the diff.
+ * @throws {SecretDeletionError} If keys would be deleted and `allowDelete` is not set.
+ *
+ * @example
+ * ```typescript
+ * const plan = await syncSecretsFromFile('./secrets/prod.json', 'prod/video/env', {
+ *   region: 'us-east-2',
+ *   dryRun: true,
+ * })
+ * console.log(plan.diff)
+ * ```
+ */
+export async function syncSecretsFromFile(
+  path: string,
+  secretName: string,
+  options: SecretWriteOptions = {}
+): Promise<SecretWriteResult> {
+  const isStructured = ['.json', '.yaml', '.yml'].includes(
+    extname(path).toLowerCase()
+  )
+  const provider =
+    !isStructured && basename(path).includes('.env')
+      ? createDotenvProvider(path)
+      : createFileProvider(path)
+
+  const values = await provider.load()
+  return createOrUpdateSecret(secretName, values, options)
+}
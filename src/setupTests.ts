@@ -37,13 +37,40 @@ jest.mock('@aws-sdk/client-secrets-manager', () => ({
       }),
     }),
   })),
-  GetSecretValueCommand: jest.fn(),
+  GetSecretValueCommand: jest.fn().mockImplementation((input) => ({ input })),
+  DescribeSecretCommand: jest.fn().mockImplementation((input) => ({ input })),
+  BatchGetSecretValueCommand: jest
+    .fn()
+    .mockImplementation((input) => ({ input })),
+  CreateSecretCommand: jest.fn().mockImplementation((input) => ({ input })),
+  PutSecretValueCommand: jest.fn().mockImplementation((input) => ({ input })),
+}))
+
+// Mock SSM Parameter Store for testing
+jest.mock('@aws-sdk/client-ssm', () => ({
+  SSMClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn().mockResolvedValue({
+      Parameters: [
+        { Name: '/test/app/db/host', Value: 'localhost', Type: 'String' },
+        {
+          Name: '/test/app/db/password',
+          Value: 'secret',
+          Type: 'SecureString',
+        },
+      ],
+    }),
+  })),
+  GetParametersByPathCommand: jest.fn().mockImplementation((input) => ({
+    input,
+  })),
 }))
 
 // Mock OpenSearch client for testing
 jest.mock('@opensearch-project/opensearch', () => ({
   Client: jest.fn().mockImplementation(() => ({
     index: jest.fn().mockResolvedValue({ body: { result: 'created' } }),
+    bulk: jest.fn().mockResolvedValue({ body: { errors: false, items: [] } }),
+    close: jest.fn().mockResolvedValue(undefined),
     search: jest.fn().mockResolvedValue({
       body: {
         hits: {
@@ -69,6 +96,7 @@ jest.mock('@opensearch-project/opensearch', () => ({
       .fn()
       .mockResolvedValue({ body: { cluster_name: 'test-cluster' } }),
   })),
+  errors: jest.requireActual('@opensearch-project/opensearch').errors,
 }))
 
 // Mock UUID for consistent testing
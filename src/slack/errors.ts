@@ -0,0 +1,38 @@
+// Slack error codes that are worth retrying; every other code is permanent
+const RETRYABLE_SLACK_ERRORS = [
+  'ratelimited',
+  'rate_limited',
+  'fatal_error',
+  'internal_error',
+  'service_unavailable',
+  'request_timeout',
+]
+
+/**
+ * Error thrown when the Slack API or a webhook rejects a message.
+ *
+ * Permanent errors such as `invalid_auth` or `channel_not_found` are not
+ * retried; rate limits and Slack-side failures are.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await sendSlackMessage(message, options)
+ * } catch (error) {
+ *   if (error instanceof SlackApiError && error.code === 'invalid_auth') {
+ *     // rotate the token
+ *   }
+ * }
+ * ```
+ */
+export class SlackApiError extends Error {
+  readonly code: string
+  readonly retryable: boolean
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = 'SlackApiError'
+    this.code = code
+    this.retryable = RETRYABLE_SLACK_ERRORS.includes(code)
+  }
+}
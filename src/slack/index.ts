@@ -10,12 +10,19 @@ import {
   SlackField,
   SlackAttachment,
   SlackAttachmentField,
+  SlackWebhookOptions,
 } from './types'
+import { SlackApiError } from './errors'
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_CONFIG,
+  HttpError,
+  retryWithBackoff,
+} from '../resilience'
+import { RetryConfig } from '../resilience/types'
+import { redactSecrets } from '../redaction'
 
-const DEFAULT_RETRY_CONFIG = {
-  maxAttempts: 3,
-  delayMs: 1000,
-}
+export { SlackApiError } from './errors'
 
 /**
  * Provides user-friendly error messages for common Slack API errors.
@@ -159,48 +166,20 @@ function validateSlackMessage(message: SlackMessage): void {
 }
 
 /**
- * Waits for a given number of milliseconds.
- *
- * @param {number} ms - Number of milliseconds to wait.
- * @returns {Promise<void>} Promise that resolves after the delay.
- */
-async function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
-}
-
-/**
- * Executes an operation with retry and exponential backoff.
+ * Runs a Slack request with retries, through the circuit breaker when one is given.
  *
- * @param {() => Promise<T>} operation - The operation to execute.
- * @param {object} retryConfig - Retry configuration.
- * @returns {Promise<T>} Result of the operation.
+ * @param {() => Promise<T>} operation - The request to run.
+ * @param {RetryConfig} retryConfig - Retry configuration.
+ * @param {CircuitBreaker} [circuitBreaker] - Circuit breaker shared by the requests.
+ * @returns {Promise<T>} Result of the request.
  */
-async function retryWithBackoff<T>(
+function sendWithResilience<T>(
   operation: () => Promise<T>,
-  retryConfig = DEFAULT_RETRY_CONFIG
+  retryConfig: RetryConfig,
+  circuitBreaker?: CircuitBreaker
 ): Promise<T> {
-  let lastError: Error
-
-  for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
-    try {
-      return await operation()
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-
-      if (attempt === retryConfig.maxAttempts) {
-        throw lastError
-      }
-
-      const delayTime = retryConfig.delayMs * Math.pow(2, attempt - 1)
-      console.warn(
-        `Attempt ${attempt} failed, retrying in ${delayTime}ms:`,
-        lastError.message
-      )
-      await delay(delayTime)
-    }
-  }
-
-  throw lastError!
+  const send = () => retryWithBackoff(operation, retryConfig)
+  return circuitBreaker ? circuitBreaker.execute(send) : send()
 }
 
 /**
@@ -251,7 +230,8 @@ export async function sendSlackMessage(
   const retryConfig = options.retryConfig || DEFAULT_RETRY_CONFIG
   const baseUrl = options.config.baseUrl || 'https://slack.com/api'
 
-  const payload = {
+  // Loaded secret values are masked before the message leaves the process
+  const payload = redactSecrets({
     channel: message.channel,
     text: message.text,
     ...(message.blocks && { blocks: message.blocks }),
@@ -266,32 +246,38 @@ export async function sendSlackMessage(
     ...(message.delete_original && {
       delete_original: message.delete_original,
     }),
-  }
+  })
 
   try {
-    const response = await retryWithBackoff(async () => {
-      const res = await fetch(`${baseUrl}/chat.postMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${options.config.token}`,
-        },
-        body: JSON.stringify(payload),
-      })
-
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}: ${res.statusText}`)
-      }
-
-      const data = (await res.json()) as SlackResponse
-
-      if (!data.ok) {
-        const errorMessage = getSlackErrorMessage(data.error)
-        throw new Error(errorMessage)
-      }
-
-      return data
-    }, retryConfig)
+    const response = await sendWithResilience(
+      async () => {
+        const res = await fetch(`${baseUrl}/chat.postMessage`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${options.config.token}`,
+          },
+          body: JSON.stringify(payload),
+        })
+
+        if (!res.ok) {
+          throw HttpError.fromResponse(res)
+        }
+
+        const data = (await res.json()) as SlackResponse
+
+        if (!data.ok) {
+          throw new SlackApiError(
+            data.error || 'unknown_error',
+            getSlackErrorMessage(data.error)
+          )
+        }
+
+        return data
+      },
+      retryConfig,
+      options.circuitBreaker
+    )
 
     console.log(`Message sent successfully to channel ${message.channel}`)
     return response
@@ -316,7 +302,7 @@ export async function sendSlackMessage(
  *
  * @param {SlackWebhookMessage} message - The message to send.
  * @param {SlackWebhookConfig} config - Webhook configuration.
- * @param {object} options - Additional options.
+ * @param {SlackWebhookOptions} [options] - Retry, circuit breaker and failure options.
  * @returns {Promise<SlackResponse>} Webhook response.
  *
  * @example
@@ -333,10 +319,7 @@ export async function sendSlackMessage(
 export async function sendSlackWebhook(
   message: SlackWebhookMessage,
   config: SlackWebhookConfig,
-  options: {
-    failSilently?: boolean
-    retryConfig?: { maxAttempts: number; delayMs: number }
-  } = {}
+  options: SlackWebhookOptions = {}
 ): Promise<SlackResponse> {
   validateWebhookConfig(config)
 
@@ -346,7 +329,7 @@ export async function sendSlackWebhook(
 
   const retryConfig = options.retryConfig || DEFAULT_RETRY_CONFIG
 
-  const payload = {
+  const payload = redactSecrets({
     text: message.text,
     ...(message.channel && { channel: message.channel }),
     ...(message.username && { username: message.username }),
@@ -354,33 +337,40 @@ export async function sendSlackWebhook(
     ...(message.icon_url && { icon_url: message.icon_url }),
     ...(message.attachments && { attachments: message.attachments }),
     ...(message.blocks && { blocks: message.blocks }),
-  }
+  })
 
   try {
-    const response = await retryWithBackoff(async () => {
-      const res = await fetch(config.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      })
-
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}: ${res.statusText}`)
-      }
-
-      const responseText = await res.text()
-
-      if (responseText !== 'ok') {
-        throw new Error(`Webhook returned: ${responseText}`)
-      }
-
-      return {
-        ok: true,
-        channel: message.channel || config.defaultChannel || '#general',
-      }
-    }, retryConfig)
+    const response = await sendWithResilience(
+      async () => {
+        const res = await fetch(config.webhookUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload),
+        })
+
+        if (!res.ok) {
+          throw HttpError.fromResponse(res)
+        }
+
+        const responseText = await res.text()
+
+        if (responseText !== 'ok') {
+          throw new SlackApiError(
+            responseText,
+            `Webhook returned: ${responseText}`
+          )
+        }
+
+        return {
+          ok: true,
+          channel: message.channel || config.defaultChannel || '#general',
+        }
+      },
+      retryConfig,
+      options.circuitBreaker
+    )
 
     console.log(
       `Message sent successfully via webhook to channel ${message.channel || config.defaultChannel}`
@@ -631,20 +621,16 @@ export function createSlackAttachment(options: {
  */
 export class SlackNotifier {
   private config: SlackConfig
-  private retryConfig: { maxAttempts: number; delayMs: number }
+  private retryConfig: RetryConfig
   private failSilently: boolean
+  readonly circuitBreaker: CircuitBreaker | undefined
 
-  constructor(
-    config: SlackConfig,
-    options: {
-      retryConfig?: { maxAttempts: number; delayMs: number }
-      failSilently?: boolean
-    } = {}
-  ) {
+  constructor(config: SlackConfig, options: SlackWebhookOptions = {}) {
     validateSlackConfig(config)
     this.config = config
     this.retryConfig = options.retryConfig || DEFAULT_RETRY_CONFIG
     this.failSilently = options.failSilently || false
+    this.circuitBreaker = options.circuitBreaker
   }
 
   /**
@@ -665,6 +651,7 @@ export class SlackNotifier {
         config: this.config,
         retryConfig: this.retryConfig,
         failSilently: this.failSilently,
+        ...(this.circuitBreaker && { circuitBreaker: this.circuitBreaker }),
       }
     )
   }
@@ -714,6 +701,7 @@ export class SlackNotifier {
         config: this.config,
         retryConfig: this.retryConfig,
         failSilently: this.failSilently,
+        ...(this.circuitBreaker && { circuitBreaker: this.circuitBreaker }),
       }
     )
   }
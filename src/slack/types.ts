@@ -1,3 +1,6 @@
+import type { RetryConfig } from '../resilience/types'
+import type { CircuitBreaker } from '../resilience/circuit-breaker'
+
 export interface SlackConfig {
   token: string
   defaultChannel?: string
@@ -106,14 +109,18 @@ export interface SlackResponse {
 
 export interface SlackNotificationOptions {
   config: SlackConfig
-  retryConfig?: {
-    maxAttempts: number
-    delayMs: number
-  }
+  retryConfig?: RetryConfig
+  circuitBreaker?: CircuitBreaker
   failSilently?: boolean
   checkChannelMembership?: boolean
 }
 
+export interface SlackWebhookOptions {
+  retryConfig?: RetryConfig
+  circuitBreaker?: CircuitBreaker
+  failSilently?: boolean
+}
+
 export interface SlackWebhookConfig {
   webhookUrl: string
   defaultChannel?: string